@@ -0,0 +1,338 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { Agent } from './agent';
+import { ScriptedProvider } from './providers/scripted';
+import { AgentMessage, AgentTool } from './types';
+import { AgentAbortError, AgentPulseError } from './errors';
+
+function refundTool(refunds: number[]): AgentTool {
+    return {
+        name: 'refund',
+        description: 'Refunds an order',
+        parameters: z.object({ order: z.number() }),
+        requiresApproval: true,
+        execute: async ({ order }) => {
+            refunds.push(order);
+            return 'refunded';
+        }
+    };
+}
+
+function lookupTool(): AgentTool {
+    return {
+        name: 'lookup',
+        description: 'Looks up an order',
+        parameters: z.object({ order: z.number() }),
+        execute: async () => 'shipped'
+    };
+}
+
+describe('tool loop', () => {
+    it('runs the tool and sends its result back to the model', async () => {
+        const provider = new ScriptedProvider([
+            { tool_calls: [{ id: 't1', name: 'lookup', arguments: { order: 1 } }], usage: { input_tokens: 10, output_tokens: 2 } },
+            { text: ['Order 1 ', 'has shipped.'], usage: { input_tokens: 20, output_tokens: 5 } }
+        ]);
+        const agent = new Agent({ name: 'a', provider, tools: [lookupTool()], max_tool_iterations: 2 });
+        const events: string[] = [];
+        agent.on('tool_start', ({ tool }) => events.push(`start:${tool}`));
+        agent.on('tool_end', ({ result }) => events.push(`end:${result}`));
+
+        const response = await agent.run('Where is order 1?');
+
+        expect(response.content).toBe('Order 1 has shipped.');
+        expect(events).toEqual(['start:lookup', 'end:shipped']);
+        expect(provider.calls[1].messages).toEqual([
+            { role: 'user', content: 'Where is order 1?' },
+            expect.objectContaining({ role: 'assistant', tool_calls: [{ id: 't1', name: 'lookup', arguments: { order: 1 } }] }),
+            { role: 'tool', tool_call_id: 't1', name: 'lookup', content: 'shipped' }
+        ]);
+        expect(response.usage).toMatchObject({ input_tokens: 30, output_tokens: 7, total_tokens: 37 });
+        expect(response.meta.iterations).toHaveLength(2);
+    });
+
+    it('returns the last tool result with a single iteration', async () => {
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([{ tool_calls: [{ name: 'lookup', arguments: { order: 1 } }] }]),
+            tools: [lookupTool()]
+        });
+
+        const response = await agent.run('Where is order 1?');
+
+        expect(response.content).toBe('shipped');
+    });
+
+    it('reports invalid arguments and unknown tools back to the model', async () => {
+        const provider = new ScriptedProvider([
+            {
+                tool_calls: [
+                    { id: 'bad', name: 'lookup', arguments: { order: 'one' } },
+                    { id: 'unknown', name: 'cancel', arguments: {} }
+                ]
+            },
+            { text: 'Sorry' }
+        ]);
+        const agent = new Agent({ name: 'a', provider, tools: [lookupTool()], max_tool_iterations: 2 });
+
+        await agent.run('Cancel order one');
+
+        const results = (provider.calls[1].messages as AgentMessage[]).filter(m => m.role === 'tool');
+        expect(JSON.parse(results[0].content)).toMatchObject({ error: 'invalid_arguments' });
+        expect(JSON.parse(results[1].content)).toMatchObject({ error: 'unknown_tool' });
+    });
+
+    it('retries transient provider failures', async () => {
+        const rateLimited = new AgentPulseError('network_error', 'Too many requests', { kind: 'rate_limit' });
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([{ text: 'par', error: rateLimited }, { text: 'Hello' }]),
+            retry: { max_attempts: 2, base_delay_ms: 1, jitter: false }
+        });
+        const events: string[] = [];
+        agent.on('token_reset', () => events.push('token_reset'));
+        agent.on('retry', ({ attempt }) => events.push(`retry:${attempt}`));
+
+        const response = await agent.run('Hi');
+
+        expect(response.content).toBe('Hello');
+        expect(events).toEqual(['token_reset', 'retry:1']);
+    });
+});
+
+describe('approval', () => {
+    function supportAgent(refunds: number[], script: ScriptedProvider) {
+        return new Agent({ name: 'support', provider: script, tools: [refundTool(refunds), lookupTool()], max_tool_iterations: 3 });
+    }
+
+    const refundTurn = {
+        tool_calls: [
+            { id: 'l1', name: 'lookup', arguments: { order: 42 } },
+            { id: 'r1', name: 'refund', arguments: { order: 42 } }
+        ]
+    };
+
+    it('pauses before running the turn and resumes with the decision', async () => {
+        const refunds: number[] = [];
+        const provider = new ScriptedProvider([refundTurn, { text: 'Refunded' }]);
+        const agent = supportAgent(refunds, provider);
+
+        const paused = await agent.run('Refund order 42');
+
+        expect(paused.meta.stop_reason).toBe('approval_required');
+        expect(paused.suspended?.pending).toEqual([{ id: 'r1', name: 'refund', arguments: { order: 42 } }]);
+        expect(refunds).toEqual([]);
+
+        // The state survives a round trip through JSON, e.g. a database
+        const state = JSON.parse(JSON.stringify(paused.suspended));
+        const resumed = await supportAgent(refunds, provider).resume(state, { r1: { approved: true } });
+
+        expect(resumed.content).toBe('Refunded');
+        expect(refunds).toEqual([42]);
+        const results = (provider.calls[1].messages as AgentMessage[]).filter(m => m.role === 'tool');
+        expect(results.map(m => m.content)).toEqual(['shipped', 'refunded']);
+    });
+
+    it('sends the rejection reason to the model', async () => {
+        const refunds: number[] = [];
+        const provider = new ScriptedProvider([refundTurn, { text: 'Not refunded' }]);
+        const agent = supportAgent(refunds, provider);
+
+        const paused = await agent.run('Refund order 42');
+        await agent.resume(paused.suspended!, { r1: { approved: false, reason: 'Over the limit' } });
+
+        expect(refunds).toEqual([]);
+        const rejected = (provider.calls[1].messages as AgentMessage[]).find(m => m.tool_call_id === 'r1')!;
+        expect(JSON.parse(rejected.content)).toEqual({ error: 'rejected', message: 'Over the limit' });
+    });
+
+    it('requires a decision for every call that needs approval', async () => {
+        const refunds: number[] = [];
+        const agent = supportAgent(refunds, new ScriptedProvider([refundTurn]));
+        const paused = await agent.run('Refund order 42');
+        const state = paused.suspended!;
+
+        await expect(agent.resume(state, {})).rejects.toThrow('Missing approval decision for tool call(s): r1');
+
+        // A call added to the state on its way through a client still needs its own decision
+        const tampered = { ...state, tool_calls: [...state.tool_calls, { id: 'r2', name: 'refund', arguments: { order: 7 } }] };
+        await expect(agent.resume(tampered, { r1: { approved: true } })).rejects.toThrow('Missing approval decision for tool call(s): r2');
+        expect(refunds).toEqual([]);
+    });
+});
+
+describe('asTool', () => {
+    it('fails the tool call when the sub-agent pauses for approval', async () => {
+        const refunds: number[] = [];
+        const support = new Agent({
+            name: 'support',
+            provider: new ScriptedProvider([
+                { tool_calls: [{ id: 'r1', name: 'refund', arguments: { order: 42 } }] },
+                { text: 'ok' }
+            ]),
+            tools: [refundTool(refunds)],
+            max_tool_iterations: 2
+        });
+        const orchestratorProvider = new ScriptedProvider([
+            { tool_calls: [{ id: 's1', name: 'support', arguments: { input: 'Refund order 42' } }] },
+            { text: 'The refund needs approval.' }
+        ]);
+        const orchestrator = new Agent({
+            name: 'orchestrator',
+            provider: orchestratorProvider,
+            tools: [support.asTool({ description: 'Handles support requests' })],
+            max_tool_iterations: 2
+        });
+
+        const response = await orchestrator.run('Refund order 42');
+
+        expect(refunds).toEqual([]);
+        const result = (orchestratorProvider.calls[1].messages as any[]).find(m => m.role === 'tool');
+        expect(result.content).toContain('did not finish');
+        expect(result.content).toContain('refund (r1)');
+        expect(response.content).toBe('The refund needs approval.');
+    });
+
+    it('fails the tool call when the sub-agent exceeds its budget', async () => {
+        const support = new Agent({
+            name: 'support',
+            provider: new ScriptedProvider([
+                { tool_calls: [{ name: 'lookup', arguments: { order: 1 } }, { name: 'lookup', arguments: { order: 2 } }] }
+            ]),
+            tools: [lookupTool()],
+            max_tool_iterations: 3,
+            budget: { max_tool_calls: 1 }
+        });
+        const orchestratorProvider = new ScriptedProvider([
+            { tool_calls: [{ name: 'support', arguments: { input: 'Where are orders 1 and 2?' } }] },
+            { text: 'I could not check the orders.' }
+        ]);
+        const orchestrator = new Agent({
+            name: 'orchestrator',
+            provider: orchestratorProvider,
+            tools: [support.asTool({ description: 'Handles support requests' })],
+            max_tool_iterations: 2
+        });
+
+        await orchestrator.run('Where are orders 1 and 2?');
+
+        const result = (orchestratorProvider.calls[1].messages as any[]).find(m => m.role === 'tool');
+        expect(result.content).toContain('budget ran out (max_tool_calls)');
+    });
+});
+
+describe('agent.abort', () => {
+    it('cancels every in-flight run', async () => {
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([{ text: 'a', delay_ms: 20 }, { text: 'b', delay_ms: 20 }])
+        });
+
+        const runs = [agent.run('first'), agent.run('second')];
+        setTimeout(() => agent.abort('stop'), 5);
+
+        for (const run of runs) {
+            await expect(run).rejects.toBeInstanceOf(AgentAbortError);
+        }
+    });
+});
+
+describe('budget', () => {
+    it('stops on max_cost_usd for a priced model', async () => {
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([
+                { tool_calls: [{ name: 'lookup', arguments: { order: 1 } }], usage: { input_tokens: 1000, output_tokens: 0 } },
+                { text: 'never sent' }
+            ], 'local-model'),
+            tools: [lookupTool()],
+            max_tool_iterations: 3,
+            pricing: { 'local-model': { input: 1, output: 1 } }, // USD per million tokens
+            budget: { max_cost_usd: 0.0005 }
+        });
+
+        const response = await agent.run('Where is order 1?');
+
+        expect(response.meta.stop_reason).toBe('budget_exceeded');
+        expect(response.meta.budget).toMatchObject({ limit: 'max_cost_usd', max: 0.0005, actual: 0.001 });
+    });
+
+    it('does not start tools past max_tool_calls and keeps the history valid', async () => {
+        let ran = 0;
+        const counted: AgentTool = { ...lookupTool(), execute: async () => { ran++; return 'shipped'; } };
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([
+                { tool_calls: [{ name: 'lookup', arguments: { order: 1 } }] },
+                { tool_calls: [{ name: 'lookup', arguments: { order: 2 } }, { name: 'lookup', arguments: { order: 3 } }] }
+            ]),
+            tools: [counted],
+            max_tool_iterations: 5,
+            budget: { max_tool_calls: 2 }
+        });
+        const exceeded: unknown[] = [];
+        agent.on('budget_exceeded', payload => exceeded.push(payload));
+
+        const response = await agent.run('Where are orders 1, 2 and 3?');
+
+        expect(ran).toBe(1);
+        expect(response.meta.stop_reason).toBe('budget_exceeded');
+        expect(exceeded).toEqual([{ limit: 'max_tool_calls', max: 2, actual: 3 }]);
+    });
+
+    it('carries the tool calls of a paused run over to the resumed run', async () => {
+        const refunds: number[] = [];
+        const refundTurn = (order: number) => ({ tool_calls: [{ id: `r${order}`, name: 'refund', arguments: { order } }] });
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([refundTurn(1), refundTurn(2)]),
+            tools: [refundTool(refunds)],
+            max_tool_iterations: 5,
+            budget: { max_tool_calls: 1 }
+        });
+
+        const paused = await agent.run('Refund orders 1 and 2');
+        const resumed = await agent.resume(paused.suspended!, { r1: { approved: true } });
+
+        expect(refunds).toEqual([1]);
+        expect(resumed.meta.stop_reason).toBe('budget_exceeded');
+        expect(resumed.meta.budget).toMatchObject({ limit: 'max_tool_calls', actual: 2 });
+    });
+
+    it('cancels a slow tool when max_duration_ms runs out', async () => {
+        const slow: AgentTool = {
+            ...lookupTool(),
+            execute: (_args, context) => new Promise((_, reject) => {
+                context?.signal?.addEventListener('abort', () => reject(new Error('cancelled')));
+            })
+        };
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([{ text: 'Checking', tool_calls: [{ name: 'lookup', arguments: { order: 1 } }] }]),
+            tools: [slow],
+            max_tool_iterations: 2,
+            budget: { max_duration_ms: 20 }
+        });
+
+        const response = await agent.run('Where is order 1?');
+
+        expect(response.meta.stop_reason).toBe('budget_exceeded');
+        expect(response.meta.budget?.limit).toBe('max_duration_ms');
+        expect(response.content).toBe('Checking');
+    });
+
+    it('warns when max_cost_usd cannot be enforced for a model without a price', async () => {
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([{ text: 'Hi', usage: { input_tokens: 1000, output_tokens: 10 } }], 'unknown-model'),
+            budget: { max_cost_usd: 0.0001 }
+        });
+        const warnings: string[] = [];
+        agent.on('log', ({ level, message }) => level === 'warn' && warnings.push(message));
+
+        const response = await agent.run('Hello');
+
+        expect(response.meta.stop_reason).toBeUndefined();
+        expect(warnings).toEqual([expect.stringContaining('max_cost_usd was not enforced for 1 provider call(s)')]);
+    });
+});
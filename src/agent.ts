@@ -1,57 +1,359 @@
 
 import { EventEmitter } from 'events';
-import { AgentConfig, AgentResponse, AgentTool, LLMProvider, AgentMessage } from './types';
+import { AgentConfig, AgentResponse, AgentTool, LLMProvider, AgentMessage, RunOptions, MemoryStore, AgentEvent, IterationUsage, TokenUsage, AgentEventType, SuspendedRun, ApprovalDecisions, PendingToolCall, ToolContext, AgentToolOptions } from './types';
+import { AgentAbortError, AgentPulseError } from './errors';
+import { normalizeError } from './utils/error-utils';
+import { resolveRetryPolicy, computeRetryDelay, sleep } from './utils/retry-utils';
+import { mapWithConcurrency } from './utils/concurrency-utils';
+import { Session } from './session';
+import { streamRun } from './stream';
+import { InMemoryStore } from './memory';
+import { z } from 'zod';
+import { estimateTokens, estimateMessagesTokens, estimateFilesTokens, estimateToolsTokens, getContextLimit } from './utils/token-utils';
+import { applySlidingWindow, dropOldest, splitForSummary, formatTranscript, toSummaryMessage, SUMMARY_SYSTEM_PROMPT } from './utils/context-utils';
+import { getModelPrice, computeCost, sumUsage } from './utils/pricing-utils';
+import { BudgetTracker, mergeBudgets } from './utils/budget-utils';
+import { Span, withSpan } from './tracing/tracer';
+import { assertStrictTools } from './utils/schema-utils';
+import { parseStructuredOutput, buildOutputCorrectionPrompt, toValidationIssues, ValidationIssue } from './utils/output-utils';
 
-export class Agent extends EventEmitter {
-    private config: AgentConfig;
+const DEFAULT_TOOL_CONCURRENCY = 4;
+const DEFAULT_OUTPUT_RETRIES = 2;
+const DEFAULT_RESERVE_OUTPUT_TOKENS = 4096;
+const DEFAULT_WINDOW_SIZE = 20;
+const SUMMARY_RECENT_SHARE = 0.5; // Share of the budget kept verbatim when summarizing
+
+interface ToolOutcome {
+    ok: boolean;
+    result?: any;
+    message: AgentMessage;
+}
+
+// Emits an event on the agent and to the run's own `onEvent` hook
+type RunEmit = (type: AgentEventType, payload: any) => void;
+
+type RunStart =
+    | { input: string | AgentMessage[] }
+    | { resume: SuspendedRun; decisions: ApprovalDecisions };
+
+export class Agent<TOutput = string | object> extends EventEmitter {
+    private config: AgentConfig<TOutput>;
     private provider: LLMProvider;
+    private controllers = new Set<AbortController>(); // One per in-flight run
+    private memory: MemoryStore;
 
-    constructor(config: AgentConfig) {
+    constructor(config: AgentConfig<TOutput>) {
         super();
+        assertStrictTools(config.tools);
         this.config = config;
         this.provider = config.provider;
+        this.memory = config.memory || new InMemoryStore();
     }
 
-    async run(inputContext: string | AgentMessage[]): Promise<AgentResponse> {
-        this.emit('start', { timestamp: Date.now(), inputContext });
-        const startTime = Date.now();
+    get name(): string {
+        return this.config.name;
+    }
 
-        // 1. Initialize message history
-        let messages: AgentMessage[] = [];
-        if (Array.isArray(inputContext)) {
-            messages = [...inputContext];
-        } else {
-            const content = typeof inputContext === 'string' ? inputContext : String(inputContext);
-            const userContent = this.config.prompt ? `${this.config.prompt}\n\n${content}` : content;
-            messages.push({ role: 'user', content: userContent });
+    /**
+     * Returns a stateful conversation whose history is kept in `config.memory`
+     * (or in process memory when no store is configured).
+     */
+    session(id: string, store: MemoryStore = this.memory): Session<TOutput> {
+        return new Session(this, id, store);
+    }
+
+    /**
+     * Cancels every in-flight run of this agent. Each pending `run()` rejects with an
+     * `AgentAbortError` and an `aborted` event is emitted. To cancel a single run of a
+     * shared agent, pass a `signal` in its run options instead.
+     */
+    abort(reason?: any): void {
+        for (const controller of this.controllers) {
+            controller.abort(reason);
         }
+    }
 
-        // Persistence: Save initial User Message if it's new
-        if (typeof inputContext === 'string' && this.config.saveFunction) {
-            try {
-                const lastMsg = messages[messages.length - 1];
-                await this.config.saveFunction(lastMsg);
-            } catch (err) {
-                console.error("Failed to save user message:", err);
+    run(inputContext: string | AgentMessage[], options: RunOptions = {}): Promise<AgentResponse<TOutput>> {
+        return this.start({ input: inputContext }, options);
+    }
+
+    /**
+     * Continues a run that paused for tool approval (`meta.stop_reason === 'approval_required'`).
+     * Every pending call needs a decision: approve it (optionally with edited arguments) or
+     * reject it with a reason the model gets as the tool result. The state is plain JSON, so
+     * it can come from another process, e.g. a later HTTP request.
+     *
+     * @example
+     * ```typescript
+     * const paused = await agent.run('Refund order 42');
+     * if (paused.suspended) {
+     *   const [call] = paused.suspended.pending;
+     *   const result = await agent.resume(paused.suspended, { [call.id]: { approved: true } });
+     * }
+     * ```
+     */
+    async resume(state: SuspendedRun, decisions: ApprovalDecisions, options: RunOptions = {}): Promise<AgentResponse<TOutput>> {
+        if (state?.version !== 1 || !Array.isArray(state.messages) || !Array.isArray(state.pending) || !Array.isArray(state.tool_calls)) {
+            throw new AgentPulseError('execution_error', 'Invalid suspended run state', { kind: 'invalid_request' });
+        }
+        if (state.agent !== this.config.name) {
+            throw new AgentPulseError('execution_error', `Suspended run belongs to agent "${state.agent}", not "${this.config.name}"`, { kind: 'invalid_request' });
+        }
+        const callIds = new Set(state.tool_calls.map(call => call.id));
+        const unknown = state.pending.filter(call => !callIds.has(call.id));
+        if (unknown.length > 0) {
+            throw new AgentPulseError('execution_error', `Suspended run lists pending tool call(s) that are not part of the turn: ${unknown.map(call => call.id).join(', ')}`, {
+                kind: 'invalid_request',
+                tool_call_ids: unknown.map(call => call.id)
+            });
+        }
+        // The state may have travelled through a client, so which calls need a decision is
+        // decided again from the calls that will actually run, not taken from `state.pending`
+        const required = [...state.pending, ...await this.pendingApprovals(state.tool_calls, this.runEmitter(options))];
+        const undecided = [...new Set(required.filter(call => !decisions?.[call.id]).map(call => call.id))];
+        if (undecided.length > 0) {
+            throw new AgentPulseError('execution_error', `Missing approval decision for tool call(s): ${undecided.join(', ')}`, {
+                kind: 'invalid_request',
+                tool_call_ids: undecided
+            });
+        }
+        return this.start({ resume: state, decisions }, options);
+    }
+
+    /**
+     * Wraps the agent as a tool, so an orchestrator agent can delegate subtasks to it.
+     * The tool returns the agent's content (its structured output when it has an
+     * `output_schema`). Its `token`, `tool_start` and `tool_end` events are re-emitted on the
+     * calling agent as `subagent` events, and its usage is added to the calling run. When the
+     * agent pauses for tool approval or exceeds its budget, the tool fails instead, so the
+     * calling model is told the task was not done.
+     *
+     * @example
+     * ```typescript
+     * const orchestrator = new Agent({
+     *   name: 'orchestrator',
+     *   provider: new openAI('gpt-5.2'),
+     *   tools: [researcher.asTool({ description: 'Researches a topic and returns a summary' })],
+     *   max_tool_iterations: 5
+     * });
+     * ```
+     */
+    asTool(options: AgentToolOptions): AgentTool {
+        const inputSchema = options.inputSchema || z.object({ input: z.string().describe('Task for the agent') });
+        return {
+            name: options.name || this.config.name,
+            description: options.description,
+            parameters: inputSchema,
+            execute: async (args: any, context: ToolContext = {}) => {
+                // Scoped to this run: concurrent calls of the same tool only see their own events
+                const onEvent = (event: AgentEvent) => {
+                    if (event.type === 'subagent') {
+                        // Events of agents nested further down already carry their own name
+                        context.emitEvent?.(event.payload);
+                    } else if (event.type === 'token' || event.type === 'tool_start' || event.type === 'tool_end') {
+                        context.emitEvent?.({ agent: this.config.name, tool_call_id: context.tool_call_id, event });
+                    }
+                };
+
+                const response = await this.run(toAgentInput(args), {
+                    signal: context.signal,
+                    tracer: context.tracer,
+                    parent_span: context.parent_span,
+                    onEvent
+                });
+                context.reportUsage?.({
+                    agent: this.config.name,
+                    model: response.meta.model,
+                    usage: response.usage,
+                    latency_ms: response.meta.latency_ms
+                });
+                // A paused or cut-short run has no answer; passing its content on would tell the model the task was done
+                const stopReason = response.meta.stop_reason;
+                if (response.suspended || stopReason) {
+                    let why = `it stopped early (${stopReason})`;
+                    if (response.suspended) {
+                        const pending = response.suspended.pending.map(call => `${call.name} (${call.id})`).join(', ');
+                        why = `it needs approval for ${pending}, which did not run`;
+                    } else if (stopReason === 'budget_exceeded') {
+                        why = `its budget ran out (${response.meta.budget?.limit})`;
+                    }
+                    throw new AgentPulseError('execution_error', `Agent "${this.config.name}" did not finish the task: ${why}`, {
+                        kind: 'unknown',
+                        agent: this.config.name,
+                        stop_reason: stopReason,
+                        ...(response.suspended && { pending: response.suspended.pending })
+                    });
+                }
+                return response.content;
             }
+        };
+    }
+
+    private async start(start: RunStart, options: RunOptions): Promise<AgentResponse<TOutput>> {
+        // Each run gets its own controller so `abort()` and an external signal both cancel it
+        const controller = new AbortController();
+        this.controllers.add(controller);
+        const externalSignal = options.signal;
+        const onExternalAbort = () => controller.abort(externalSignal?.reason);
+        if (externalSignal) {
+            if (externalSignal.aborted) {
+                controller.abort(externalSignal.reason);
+            } else {
+                externalSignal.addEventListener('abort', onExternalAbort, { once: true });
+            }
+        }
+
+        const tracer = this.config.tracer || options.tracer;
+        const span = tracer?.startSpan('agent.run', 'run', {
+            parent: options.parent_span,
+            attributes: { agent: this.config.name, model: this.provider.model, ...('resume' in start && { resumed: true }) }
+        });
+        span?.setContent('input', 'resume' in start ? start.decisions : start.input);
+
+        try {
+            return await withSpan(span, () => this.runLoop(start, options, controller.signal, span));
+        } finally {
+            externalSignal?.removeEventListener('abort', onExternalAbort);
+            this.controllers.delete(controller);
         }
+    }
 
+    /**
+     * Runs the agent and yields its events as they happen, ending with the `response` event.
+     * Leaving the `for await` loop early aborts the run.
+     *
+     * @example
+     * ```typescript
+     * for await (const event of agent.stream('Hello')) {
+     *   if (event.type === 'token') process.stdout.write(event.payload);
+     *   if (event.type === 'response') console.log(event.payload.usage);
+     * }
+     * ```
+     */
+    stream(inputContext: string | AgentMessage[], options: RunOptions = {}): AsyncIterable<AgentEvent<TOutput>> {
+        return streamRun(this, inputContext, options);
+    }
+
+    private async runLoop(start: RunStart, options: RunOptions, signal: AbortSignal, span?: Span): Promise<AgentResponse<TOutput>> {
+        const emit = this.runEmitter(options);
+        const startTime = Date.now();
+        let messages: AgentMessage[];
         let iterations = 0;
         const maxIterations = this.config.max_tool_iterations || 1;
         let lastResponse: AgentResponse | null = null;
+        const contextBudget = this.contextBudget(emit);
+        const usageLog: IterationUsage[] = [];
+        // Provider calls and tools get the budget's signal, which also follows the run signal
+        // A resumed run continues the paused run's budget; time spent waiting for approval is not counted
+        const budget = new BudgetTracker(
+            mergeBudgets(this.config.budget, options.budget),
+            signal,
+            'resume' in start ? { tool_calls: start.resume.budget_used?.tool_calls ?? 0, elapsed_ms: start.resume.budget_used?.elapsed_ms ?? 0 } : undefined
+        );
+        const budgetSignal = budget.signal;
+        let pendingToolCalls: any[] = []; // Tool calls persisted without their results yet
+        let toolBatch: { calls: any[]; decisions: ApprovalDecisions } | null = null; // Approved calls to run next
+        let suspended: SuspendedRun | null = null;
+        // Lets tools that run other agents (see asTool) report their usage and events to this run
+        const toolContext: ToolContext = {
+            tracer: this.config.tracer || options.tracer,
+            reportUsage: (entry) => {
+                const logged: IterationUsage = { iteration: iterations, kind: 'subagent', ...entry };
+                usageLog.push(logged);
+                budget.addUsage(logged.usage);
+            },
+            emitEvent: (event) => emit('subagent', event)
+        };
+
+        if ('resume' in start) {
+            // Pick up where the paused run stopped: its tool calls are persisted, their results are not
+            const state = start.resume;
+            emit('start', { timestamp: startTime, inputContext: state.messages, resumed: true });
+            messages = [...state.messages];
+            iterations = state.iteration;
+            lastResponse = { ...state.response, meta: { ...state.response.meta } };
+            usageLog.push(...state.usage);
+            for (const entry of state.usage) {
+                budget.addUsage(entry.usage);
+            }
+            pendingToolCalls = state.tool_calls;
+            toolBatch = { calls: state.tool_calls, decisions: start.decisions };
+        } else {
+            const inputContext = start.input;
+            emit('start', { timestamp: startTime, inputContext });
+
+            // 1. Initialize message history
+            messages = [...(options.history || [])];
+            if (Array.isArray(inputContext)) {
+                messages.push(...inputContext);
+            } else {
+                const content = typeof inputContext === 'string' ? inputContext : String(inputContext);
+                const userContent = this.config.prompt ? `${this.config.prompt}\n\n${content}` : content;
+                messages.push({ role: 'user', content: userContent });
+            }
+
+            // Persistence: Save initial User Message if it's new
+            if (typeof inputContext === 'string') {
+                try {
+                    const lastMsg = messages[messages.length - 1];
+                    await this.persist(lastMsg, options);
+                } catch (err) {
+                    emit('log', { level: 'error', message: `Failed to save user message: ${err instanceof Error ? err.message : String(err)}` });
+                    span?.recordError(err);
+                }
+            }
+        }
 
         try {
-            while (iterations < maxIterations) {
+            while (true) {
+                if (toolBatch) {
+                    const outcomes = await this.runToolBatch(toolBatch.calls, toolBatch.decisions, { ...toolContext, signal: budgetSignal }, emit, span);
+                    toolBatch = null;
+
+                    // Tool messages are appended in the original call order, even when executed concurrently
+                    let lastToolResult = null;
+                    for (const outcome of outcomes) {
+                        messages.push(outcome.message);
+                        // Error results are persisted too, the model saw them
+                        await this.persist(outcome.message, options);
+                        if (outcome.ok) {
+                            lastToolResult = outcome.result;
+                        }
+                    }
+                    pendingToolCalls = [];
+
+                    // For the "Intent Detection" pattern (maxIterations = 1), 
+                    // we return the last tool result as the content to preserve legacy behavior.
+                    if (maxIterations === 1 && lastToolResult !== null && lastResponse) {
+                        lastResponse.content = lastToolResult;
+                    }
+
+                    // If we have more iterations, continue the loop
+                    if (iterations < maxIterations && budget.check()) {
+                        continue;
+                    }
+                    break;
+                }
+
                 iterations++;
+                this.throwIfAborted(budgetSignal);
 
-                const response = await this.provider.generate(
-                    this.config.system,
-                    messages,
-                    this.config.files,
-                    this.config.tools,
-                    this.config.config,
-                    this.config.output_schema,
-                    (token) => this.emit('token', token)
+                if (this.config.context) {
+                    messages = await this.fitContext(messages, contextBudget, budgetSignal, emit,
+                        (summary, latency) => budget.addUsage(this.recordUsage(usageLog, iterations, 'summary', summary, latency).usage));
+                    this.throwIfAborted(budgetSignal);
+                }
+
+                const iterationStart = Date.now();
+                const { response, usage } = await withSpan(
+                    span?.startChild('agent.generate', 'generate', { iteration: iterations }),
+                    async (generateSpan) => {
+                        const response = await this.generateStructured(messages, budgetSignal, emit, budget);
+                        this.throwIfAborted(budgetSignal);
+                        const entry = this.recordUsage(usageLog, iterations, 'generate', response, Date.now() - iterationStart);
+                        generateSpan?.setAttributes({ model: entry.model, ...entry.usage, tool_calls: response.tool_calls?.length });
+                        return { response, usage: entry.usage };
+                    }
                 );
 
                 lastResponse = response;
@@ -61,77 +363,75 @@ export class Agent extends EventEmitter {
                     lastResponse.message = response.content;
                 }
 
+                // Over budget: stop before spending more on tools or another iteration
+                if (!budget.addUsage(usage)) {
+                    break;
+                }
+
                 // Handle Tool Execution
                 if (response.tool_calls && this.config.tools) {
+                    if (!budget.allowToolCalls(response.tool_calls.length)) {
+                        break;
+                    }
+
                     // Add Assistant's tool call message to history
                     const assistantMsg: AgentMessage = {
                         role: 'assistant',
                         content: response.content || null,
-                        tool_calls: response.tool_calls
+                        tool_calls: response.tool_calls,
+                        ...(response.reasoning_blocks && { reasoning_blocks: response.reasoning_blocks })
                     };
                     messages.push(assistantMsg);
+                    await this.persist(assistantMsg, options);
+                    pendingToolCalls = response.tool_calls;
 
-                    if (this.config.saveFunction) {
-                        await this.config.saveFunction(assistantMsg);
-                    }
-
-                    let lastToolResult = null;
-                    for (const call of response.tool_calls) {
-                        const tool = this.config.tools.find(t => t.name === call.name);
-                        if (tool) {
-                            try {
-                                this.emit('tool_start', { tool: tool.name, arguments: call.arguments });
-                                const result = await tool.execute(call.arguments);
-                                this.emit('tool_end', { tool: tool.name, result });
-                                lastToolResult = result;
-
-                                const toolMsg: AgentMessage = {
-                                    role: 'tool',
-                                    tool_call_id: call.id,
-                                    name: tool.name,
-                                    content: typeof result === 'string' ? result : JSON.stringify(result)
-                                };
-                                messages.push(toolMsg);
-
-                                if (this.config.saveFunction) {
-                                    await this.config.saveFunction(toolMsg);
-                                }
-                            } catch (e) {
-                                console.error(`Error executing tool ${tool.name}:`, e);
-                                // Add error as tool result so LLM knows what happened
-                                const errorMsg: AgentMessage = {
-                                    role: 'tool',
-                                    tool_call_id: call.id,
-                                    name: tool.name,
-                                    content: `Error: ${e instanceof Error ? e.message : String(e)}`
-                                };
-                                messages.push(errorMsg);
-                            }
-                        }
-                    }
-
-                    // For the "Intent Detection" pattern (maxIterations = 1), 
-                    // we return the last tool result as the content to preserve legacy behavior.
-                    if (maxIterations === 1 && lastToolResult !== null) {
-                        lastResponse.content = lastToolResult;
+                    // Sensitive calls hold back the whole turn until agent.resume() decides on them
+                    const pending = await this.pendingApprovals(response.tool_calls, emit);
+                    if (pending.length > 0) {
+                        suspended = {
+                            version: 1,
+                            agent: this.config.name,
+                            messages,
+                            tool_calls: response.tool_calls,
+                            pending,
+                            iteration: iterations,
+                            usage: usageLog,
+                            budget_used: budget.used,
+                            response: { ...response, meta: { ...response.meta } }
+                        };
+                        break;
                     }
 
-                    // If we have more iterations, continue the loop
-                    if (iterations < maxIterations) {
-                        continue;
-                    }
+                    toolBatch = { calls: response.tool_calls, decisions: {} };
+                    continue;
                 }
 
                 // If no tool calls OR we reached limit, break and return
                 break;
             }
         } catch (error: any) {
-            this.emit('error', {
-                error_key: 'execution_error',
-                message: error.message || String(error),
-                details: error
-            });
-            throw error;
+            if (signal.aborted) {
+                emit('aborted', { timestamp: Date.now(), reason: signal.reason });
+                throw error instanceof AgentAbortError ? error : new AgentAbortError(undefined, signal.reason);
+            }
+            if (!budget.exceeded) {
+                const agentError = normalizeError(error);
+                emit('error', agentError);
+                throw agentError;
+            }
+            // The budget ran out while a provider call or tool was in flight. Close the open
+            // tool calls so the persisted history stays valid for the next run.
+            for (const call of pendingToolCalls) {
+                await this.persist({
+                    role: 'tool',
+                    tool_call_id: call.id,
+                    name: call.name,
+                    content: JSON.stringify({ error: 'budget_exceeded', message: 'Tool call was cancelled because the run budget was exceeded' })
+                }, options);
+            }
+            lastResponse = this.interruptedResponse(lastResponse, budget, usageLog, iterations);
+        } finally {
+            budget.dispose();
         }
 
         if (!lastResponse) {
@@ -140,22 +440,522 @@ export class Agent extends EventEmitter {
 
         // Add latency to meta
         lastResponse.meta.latency_ms = Date.now() - startTime;
+        // Report what the whole run consumed, not just the final call
+        lastResponse.usage = sumUsage(usageLog.map(entry => entry.usage));
+        lastResponse.meta.iterations = usageLog;
+        if (budget.exceeded) {
+            const { limit, max, actual } = budget.exceeded;
+            lastResponse.meta.stop_reason = 'budget_exceeded';
+            lastResponse.meta.budget = budget.exceeded;
+            emit('budget_exceeded', budget.exceeded);
+            emit('log', { level: 'warn', message: `Budget exceeded (${limit}: ${actual} > ${max}), returning partial response` });
+        }
+        if (budget.unpricedCalls > 0) {
+            emit('log', {
+                level: 'warn',
+                message: `max_cost_usd was not enforced for ${budget.unpricedCalls} provider call(s) without a known cost, add the model to config.pricing`
+            });
+        }
 
-        // Persistence: Save Final Assistant Response
-        if (this.config.saveFunction) {
+        if (suspended) {
+            // No final message is persisted: the tool results come first, once the calls are decided
+            suspended = JSON.parse(JSON.stringify(suspended)) as SuspendedRun;
+            lastResponse.meta.stop_reason = 'approval_required';
+            lastResponse.suspended = suspended;
+            emit('approval_required', { pending: suspended.pending, state: suspended });
+        } else if (lastResponse.content !== '' && lastResponse.content != null) {
+            // Persistence: Save Final Assistant Response. A run stopped right after a tool-call turn
+            // has no answer, and an empty assistant message would be rejected when the history is replayed.
             try {
-                await this.config.saveFunction({
+                await this.persist({
                     role: 'assistant',
                     content: lastResponse.content,
                     usage: lastResponse.usage,
                     meta: lastResponse.meta
-                });
+                }, options);
             } catch (err) {
-                console.error("Failed to save assistant response:", err);
+                emit('log', { level: 'error', message: `Failed to save assistant response: ${err instanceof Error ? err.message : String(err)}` });
+                span?.recordError(err);
             }
         }
 
-        this.emit('response', lastResponse);
-        return lastResponse;
+        span?.setAttributes({
+            ...lastResponse.usage,
+            iterations,
+            stop_reason: lastResponse.meta.stop_reason
+        }).setContent('output', lastResponse.content);
+
+        emit('response', lastResponse);
+        return lastResponse as AgentResponse<TOutput>;
     }
+
+    /**
+     * Emitter for a single run: `options.onEvent` sees only this run's events, even when
+     * the agent instance runs several times concurrently.
+     */
+    private runEmitter(options: RunOptions): RunEmit {
+        return (type, payload) => {
+            options.onEvent?.({ type, payload } as AgentEvent);
+            this.emit(type, payload);
+        };
+    }
+
+    /**
+     * Best response available when the budget stopped a run mid-call: the text streamed so far
+     * by the interrupted call, otherwise the last complete response. The interrupted call's
+     * output is logged with an estimated token count, the provider never reported its usage.
+     */
+    private interruptedResponse(lastResponse: AgentResponse | null, budget: BudgetTracker, usageLog: IterationUsage[], iteration: number): AgentResponse {
+        const model = this.provider.model || 'unknown';
+        if (budget.streamedTokens > 0) {
+            const usage = { input_tokens: 0, output_tokens: budget.streamedTokens, total_tokens: budget.streamedTokens };
+            usageLog.push({ iteration, kind: 'generate', model, usage, latency_ms: 0, estimated: true });
+        }
+        if (budget.partialText) {
+            return { content: budget.partialText, message: budget.partialText, usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 }, meta: { model, latency_ms: 0 } };
+        }
+        return lastResponse || { content: '', usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 }, meta: { model, latency_ms: 0 } };
+    }
+
+    /**
+     * Hands a message that became part of the conversation to the run's `onMessage` hook
+     * and to the configured `saveFunction`.
+     */
+    private async persist(message: AgentMessage, options: RunOptions): Promise<void> {
+        options.onMessage?.(message);
+        if (this.config.saveFunction) {
+            await this.config.saveFunction(message);
+        }
+    }
+
+    /**
+     * Tokens available to the conversation: the context window minus the reserved output
+     * and the parts sent with every request (system prompt, files and tool definitions).
+     * Undefined when context management is off or the model's window is unknown.
+     */
+    private contextBudget(emit: RunEmit): number | undefined {
+        const context = this.config.context;
+        if (!context) return undefined;
+
+        const limit = context.max_tokens ?? getContextLimit(this.provider.model);
+        if (!limit) {
+            emit('log', {
+                level: 'warn',
+                message: `Unknown context window for model "${this.provider.model}", set context.max_tokens to enable trimming`
+            });
+            return undefined;
+        }
+
+        const estimator = context.estimator || estimateTokens;
+        const reserve = context.reserve_output_tokens ?? this.config.config?.max_tokens ?? DEFAULT_RESERVE_OUTPUT_TOKENS;
+        const fixed = estimator(this.config.system || '')
+            + estimateFilesTokens(this.config.files, estimator)
+            + estimateToolsTokens(this.config.tools, estimator);
+        return limit - reserve - fixed;
+    }
+
+    /**
+     * Applies the configured history strategy so the conversation fits the context budget.
+     * Only the messages sent to the provider are affected; persisted history is left intact.
+     */
+    private async fitContext(
+        messages: AgentMessage[],
+        budget: number | undefined,
+        signal: AbortSignal,
+        emit: RunEmit,
+        onSummary: (summary: AgentResponse, latency_ms: number) => void
+    ): Promise<AgentMessage[]> {
+        const context = this.config.context!;
+        const strategy = context.strategy || 'drop_oldest';
+        const estimator = context.estimator || estimateTokens;
+        const tokensBefore = estimateMessagesTokens(messages, estimator);
+
+        let fitted = messages;
+        if (strategy === 'sliding_window') {
+            fitted = applySlidingWindow(fitted, context.window_size ?? DEFAULT_WINDOW_SIZE);
+        }
+        if (budget !== undefined && estimateMessagesTokens(fitted, estimator) > budget) {
+            if (strategy === 'summarize') {
+                fitted = await this.summarizeOlderTurns(fitted, budget, signal, emit, onSummary);
+            }
+            // Also the last resort for the other strategies
+            fitted = dropOldest(fitted, budget, estimator);
+        }
+
+        if (fitted === messages) {
+            return messages;
+        }
+
+        const tokensAfter = estimateMessagesTokens(fitted, estimator);
+        emit('context_trimmed', {
+            strategy,
+            messages_before: messages.length,
+            messages_after: fitted.length,
+            tokens_before: tokensBefore,
+            tokens_after: tokensAfter
+        });
+        if (budget !== undefined && tokensAfter > budget) {
+            emit('log', {
+                level: 'warn',
+                message: `Conversation needs ~${tokensAfter} tokens after trimming but only ${budget} are available`
+            });
+        }
+        return fitted;
+    }
+
+    /**
+     * Replaces the older turns with a summary written by the agent's own provider,
+     * keeping the most recent turns verbatim.
+     */
+    private async summarizeOlderTurns(
+        messages: AgentMessage[],
+        budget: number,
+        signal: AbortSignal,
+        emit: RunEmit,
+        onSummary: (summary: AgentResponse, latency_ms: number) => void
+    ): Promise<AgentMessage[]> {
+        const estimator = this.config.context?.estimator || estimateTokens;
+        const { system, older, recent } = splitForSummary(messages, budget * SUMMARY_RECENT_SHARE, estimator);
+        if (older.length === 0) {
+            return messages;
+        }
+
+        emit('log', { level: 'info', message: `Summarizing ${older.length} older message(s) to fit the context window` });
+        const summaryStart = Date.now();
+        const summary = await this.provider.generate(
+            SUMMARY_SYSTEM_PROMPT,
+            [{ role: 'user', content: formatTranscript(older) }],
+            undefined,
+            undefined,
+            this.config.config,
+            undefined,
+            () => { },
+            signal
+        );
+        onSummary(summary, Date.now() - summaryStart);
+        const text = typeof summary.content === 'string' ? summary.content : JSON.stringify(summary.content);
+        return [...system, toSummaryMessage(text), ...recent];
+    }
+
+    /**
+     * Adds the usage of one provider call to the run's log, priced with `config.pricing`
+     * or the built-in price table unless the provider already reported a cost.
+     */
+    private recordUsage(log: IterationUsage[], iteration: number, kind: IterationUsage['kind'], response: AgentResponse, latency_ms: number): IterationUsage {
+        const usage: TokenUsage = { ...response.usage };
+        const model = response.meta?.model || this.provider.model || 'unknown';
+        if (usage.cost_usd === undefined) {
+            const price = getModelPrice(model, this.config.pricing);
+            if (price) {
+                usage.cost_usd = computeCost(usage, price);
+            }
+        }
+        const entry: IterationUsage = { iteration, kind, model, usage, latency_ms };
+        log.push(entry);
+        return entry;
+    }
+
+    /**
+     * Generates a response and, when `output_schema` is set, parses and validates it.
+     * Invalid output is sent back to the model together with the validation issues,
+     * up to `max_output_retries` times, before the run fails with a `json_error`.
+     */
+    private async generateStructured(messages: AgentMessage[], signal: AbortSignal, emit: RunEmit, budget?: BudgetTracker): Promise<AgentResponse> {
+        const schema = this.config.output_schema;
+        const maxRetries = this.config.max_output_retries ?? DEFAULT_OUTPUT_RETRIES;
+        let attemptMessages = messages;
+        const attemptUsage: TokenUsage[] = [];
+
+        for (let attempt = 1; ; attempt++) {
+            const response = await this.generateWithRetry(attemptMessages, signal, emit, budget);
+            // Rejected attempts were billed too
+            attemptUsage.push(response.usage);
+            if (attempt > 1) {
+                response.usage = sumUsage(attemptUsage);
+            }
+            // Tool calls (e.g. the "Intent Detection" pattern) are not structured output
+            if (!schema || response.tool_calls?.length) {
+                return response;
+            }
+
+            const result = parseStructuredOutput(response.content, schema);
+            if (result.success) {
+                if (typeof response.content === 'string') {
+                    response.message = response.content;
+                }
+                response.content = result.data as any;
+                return response;
+            }
+
+            if (attempt > maxRetries) {
+                throw new AgentPulseError('json_error', `${result.message} after ${attempt} attempt(s)`, {
+                    kind: 'invalid_json',
+                    issues: result.issues,
+                    raw: result.raw
+                });
+            }
+
+            emit('token_reset', { attempt, discarded: result.raw });
+            budget?.resetStream();
+            emit('log', {
+                level: 'warn',
+                message: `Structured output attempt ${attempt}/${maxRetries + 1} failed validation, re-prompting: ${result.message}`
+            });
+            // Correction turns are only sent to the provider, they are not part of the persisted history
+            attemptMessages = [
+                ...attemptMessages,
+                { role: 'assistant', content: result.raw },
+                { role: 'user', content: buildOutputCorrectionPrompt(result.issues) }
+            ];
+        }
+    }
+
+    /**
+     * Calls the provider, retrying transient failures according to `config.retry`.
+     * Tokens streamed by a failed attempt are retracted with a `token_reset` event.
+     */
+    private async generateWithRetry(messages: AgentMessage[], signal: AbortSignal, emit: RunEmit, budget?: BudgetTracker): Promise<AgentResponse> {
+        const policy = resolveRetryPolicy(this.config.retry);
+        let attempt = 0;
+
+        while (true) {
+            attempt++;
+            let streamed = '';
+            try {
+                return await this.provider.generate(
+                    this.config.system,
+                    messages,
+                    this.config.files,
+                    this.config.tools,
+                    this.config.config,
+                    this.config.output_schema,
+                    (token) => {
+                        streamed += token;
+                        emit('token', token);
+                        budget?.addStreamedOutput(token, true);
+                    },
+                    signal,
+                    (event) => {
+                        if (event.type === 'text') {
+                            streamed += event.text;
+                            emit('token', event.text);
+                            budget?.addStreamedOutput(event.text, true);
+                        } else if (event.type === 'reasoning') {
+                            emit('reasoning', event.text);
+                            budget?.addStreamedOutput(event.text, false);
+                        } else {
+                            const { type, ...delta } = event;
+                            emit('tool_call_delta', delta);
+                            budget?.addStreamedOutput(delta.arguments_delta, false);
+                        }
+                    }
+                );
+            } catch (error) {
+                if (signal.aborted) {
+                    throw error;
+                }
+                const agentError = normalizeError(error);
+                if (policy.max_attempts <= 1 || !policy.retry_on.includes(agentError.details.kind)) {
+                    throw agentError;
+                }
+                if (attempt >= policy.max_attempts) {
+                    throw new AgentPulseError('retry_error', `Max retries exceeded after ${attempt} attempts: ${agentError.message}`, {
+                        ...agentError.details,
+                        attempts: attempt,
+                        cause: agentError
+                    });
+                }
+
+                const delay = computeRetryDelay(policy, attempt, agentError);
+                if (streamed) {
+                    emit('token_reset', { attempt, discarded: streamed });
+                }
+                budget?.resetStream();
+                emit('retry', {
+                    attempt,
+                    max_attempts: policy.max_attempts,
+                    delay_ms: delay,
+                    error: agentError
+                });
+                emit('log', {
+                    level: 'warn',
+                    message: `Attempt ${attempt}/${policy.max_attempts} failed (${agentError.details.kind}), retrying in ${delay}ms: ${agentError.message}`
+                });
+                await sleep(delay, signal);
+            }
+        }
+    }
+
+    /**
+     * Calls of the turn whose tool requires approval for these arguments. Calls that fail
+     * validation are left out, they are rejected without running anyway.
+     */
+    private async pendingApprovals(calls: any[], emit: RunEmit): Promise<PendingToolCall[]> {
+        const pending: PendingToolCall[] = [];
+        for (const call of calls) {
+            const tool = this.config.tools?.find(t => t.name === call.name);
+            if (!tool?.requiresApproval) continue;
+
+            let rawArgs = call.arguments;
+            try {
+                if (typeof rawArgs === 'string') {
+                    rawArgs = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+                }
+            } catch {
+                continue;
+            }
+            const parsed = tool.parameters.safeParse(rawArgs ?? {});
+            if (!parsed.success) continue;
+
+            let required = tool.requiresApproval === true;
+            if (typeof tool.requiresApproval === 'function') {
+                try {
+                    required = await tool.requiresApproval(parsed.data);
+                } catch (e) {
+                    // When in doubt, ask
+                    required = true;
+                    emit('log', { level: 'warn', message: `requiresApproval of tool ${tool.name} failed, asking for approval: ${e instanceof Error ? e.message : String(e)}` });
+                }
+            }
+            if (required) {
+                pending.push({ id: call.id, name: tool.name, arguments: parsed.data });
+            }
+        }
+        return pending;
+    }
+
+    /**
+     * Executes the tool calls of a turn, applying the approval decisions made for them.
+     * Calls without a decision did not need one.
+     */
+    private async runToolBatch(calls: any[], decisions: ApprovalDecisions, context: ToolContext & { signal: AbortSignal }, emit: RunEmit, span?: Span): Promise<ToolOutcome[]> {
+        const runCall = (call: any): Promise<ToolOutcome> => {
+            const decision = decisions[call.id];
+            if (decision && !decision.approved) {
+                return Promise.resolve(this.toolErrorOutcome(call, emit, 'rejected', decision.reason || 'The user rejected this tool call'));
+            }
+            if (decision?.arguments !== undefined) {
+                emit('log', { level: 'info', message: `Running tool call ${call.name} (${call.id}) with edited arguments` });
+                call = { ...call, arguments: decision.arguments };
+            }
+            return this.traceToolCall(call, context, emit, span);
+        };
+
+        if (this.config.parallel_tool_calls) {
+            return mapWithConcurrency(calls, this.config.max_tool_concurrency ?? DEFAULT_TOOL_CONCURRENCY, runCall);
+        }
+        const outcomes: ToolOutcome[] = [];
+        for (const call of calls) {
+            outcomes.push(await runCall(call));
+        }
+        return outcomes;
+    }
+
+    /**
+     * Executes a tool call inside a `tool` span carrying its (redactable) arguments and result.
+     */
+    private traceToolCall(call: any, context: ToolContext & { signal: AbortSignal }, emit: RunEmit, parent?: Span): Promise<ToolOutcome> {
+        return withSpan(parent?.startChild('agent.tool', 'tool', { tool: call.name, tool_call_id: call.id }), async (span) => {
+            span?.setContent('arguments', call.arguments);
+            const outcome = await this.executeToolCall(call, { ...context, tool_call_id: call.id, parent_span: span?.context }, emit);
+            span?.setAttributes({ ok: outcome.ok }).setContent('result', outcome.ok ? outcome.result : outcome.message.content);
+            if (!outcome.ok) {
+                span?.recordError(outcome.message.content);
+            }
+            return outcome;
+        });
+    }
+
+    /**
+     * Validates and executes a single tool call. Unknown tools, malformed JSON and arguments
+     * that fail the tool's schema are reported back to the model as structured tool errors.
+     */
+    private async executeToolCall(call: any, context: ToolContext & { signal: AbortSignal }, emit: RunEmit): Promise<ToolOutcome> {
+        const signal = context.signal;
+        this.throwIfAborted(signal);
+        const tool = this.config.tools?.find(t => t.name === call.name);
+        if (!tool) {
+            const available = (this.config.tools || []).map(t => t.name).join(', ');
+            return this.toolErrorOutcome(call, emit, 'unknown_tool', `Unknown tool "${call.name}". Available tools: ${available}`);
+        }
+
+        let rawArgs = call.arguments;
+        if (typeof rawArgs === 'string') {
+            try {
+                rawArgs = rawArgs.trim() ? JSON.parse(rawArgs) : {};
+            } catch (e) {
+                return this.toolErrorOutcome(call, emit, 'invalid_json', `Arguments are not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+            }
+        }
+
+        const parsed = tool.parameters.safeParse(rawArgs ?? {});
+        if (!parsed.success) {
+            return this.toolErrorOutcome(call, emit, 'invalid_arguments', `Arguments do not match the schema of tool "${tool.name}"`, toValidationIssues(parsed.error));
+        }
+        const args = parsed.data;
+
+        try {
+            emit('tool_start', { tool: tool.name, tool_call_id: call.id, arguments: args });
+            const result = await tool.execute(args, context);
+            emit('tool_end', { tool: tool.name, tool_call_id: call.id, result });
+
+            return {
+                ok: true,
+                result,
+                message: {
+                    role: 'tool',
+                    tool_call_id: call.id,
+                    name: tool.name,
+                    content: typeof result === 'string' ? result : JSON.stringify(result)
+                }
+            };
+        } catch (e) {
+            // A tool failing because the run was cancelled is not a tool error
+            this.throwIfAborted(signal);
+            // The tool span records the failure too (see traceToolCall)
+            emit('log', { level: 'error', message: `Error executing tool ${tool.name} (${call.id}): ${e instanceof Error ? e.message : String(e)}` });
+            // Add error as tool result so LLM knows what happened
+            return {
+                ok: false,
+                message: {
+                    role: 'tool',
+                    tool_call_id: call.id,
+                    name: tool.name,
+                    content: `Error: ${e instanceof Error ? e.message : String(e)}`
+                }
+            };
+        }
+    }
+
+    /**
+     * Builds a tool result describing why a call was rejected, so the model can correct itself.
+     */
+    private toolErrorOutcome(call: any, emit: RunEmit, error: string, message: string, issues?: ValidationIssue[]): ToolOutcome {
+        emit('log', { level: 'warn', message: `Rejected tool call ${call.name} (${call.id}): ${message}` });
+        return {
+            ok: false,
+            message: {
+                role: 'tool',
+                tool_call_id: call.id,
+                name: call.name,
+                content: JSON.stringify({ error, message, ...(issues && { issues }) })
+            }
+        };
+    }
+
+    private throwIfAborted(signal: AbortSignal): void {
+        if (signal.aborted) {
+            throw new AgentAbortError(undefined, signal.reason);
+        }
+    }
+}
+
+/**
+ * Prompt for an agent running as a tool: the `input` field of the default schema,
+ * otherwise the arguments as JSON.
+ */
+function toAgentInput(args: any): string {
+    if (typeof args === 'string') return args;
+    if (args && typeof args.input === 'string' && Object.keys(args).length === 1) return args.input;
+    return JSON.stringify(args);
 }
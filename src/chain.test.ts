@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { Agent } from './agent';
+import { chain, runChain, simpleChain } from './chain';
+import { ScriptedProvider, ScriptedTurn, RecordedCall } from './providers/scripted';
+import { AgentMessage, AgentTool } from './types';
+import { AgentAbortError } from './errors';
+
+const noop: AgentTool = {
+    name: 'noop',
+    description: 'Does nothing',
+    parameters: z.object({}),
+    execute: async () => 'done'
+};
+
+function echoAgent(name: string, replies: string[] = []): Agent {
+    // Without scripted replies the agent answers with its input
+    const provider = new ScriptedProvider(Array.from({ length: 10 }, (_, i) => (call: RecordedCall) => {
+        const messages = call.messages as AgentMessage[];
+        return { text: replies[i] ?? `${name}(${messages[messages.length - 1].content})`, usage: { input_tokens: 3, output_tokens: 2 } };
+    }));
+    return new Agent({ name, provider });
+}
+
+describe('chain', () => {
+    it('runs the steps in order, passing earlier results to later inputs', async () => {
+        const result = await chain([
+            { agent: echoAgent('first'), input: 'x' },
+            { agent: echoAgent('second'), input: (results) => results[0].content }
+        ]);
+
+        expect(result.results.map(r => r.content)).toEqual(['first(x)', 'second(first(x))']);
+        expect(result.totalTokens).toBe(10);
+        expect(result.path).toEqual([
+            { type: 'agent', step: 'first', result_index: 0 },
+            { type: 'agent', step: 'second', result_index: 1 }
+        ]);
+    });
+
+    it('passes each output on with simpleChain', async () => {
+        const result = await simpleChain([echoAgent('a'), echoAgent('b')], 'x');
+
+        expect(result.results[1].content).toBe('b(a(x))');
+    });
+
+    it('takes the route the router picks and records it', async () => {
+        const result = await chain([
+            { agent: echoAgent('classifier', ['billing']), input: 'My invoice is wrong' },
+            {
+                name: 'triage',
+                route: (results) => results[0].content as string,
+                routes: {
+                    billing: { agent: echoAgent('billing'), input: 'invoice' },
+                    technical: { agent: echoAgent('technical'), input: 'bug' }
+                }
+            }
+        ]);
+
+        expect(result.results.map(r => r.content)).toEqual(['billing', 'billing(invoice)']);
+        expect(result.path[1]).toEqual({ type: 'router', step: 'triage', route: 'billing' });
+    });
+
+    it('rejects an unknown route without a default', async () => {
+        const run = chain([{ route: () => 'other', routes: { known: { agent: echoAgent('a'), input: 'x' } } }]);
+
+        await expect(run).rejects.toThrow('Router "router" returned unknown route "other"');
+    });
+
+    it('repeats a loop until its condition matches', async () => {
+        const result = await chain([
+            {
+                name: 'review',
+                loop: [{ agent: echoAgent('critic', ['again', 'again', 'approved']), input: 'draft' }],
+                until: (results) => results[results.length - 1].content === 'approved',
+                max_iterations: 5
+            }
+        ]);
+
+        expect(result.results).toHaveLength(3);
+        expect(result.path[result.path.length - 1]).toEqual({ type: 'loop', step: 'review', iteration: 3, exit: 'until' });
+    });
+
+    it('stops when the shared budget is used up', async () => {
+        const result = await chain([
+            { agent: echoAgent('first'), input: 'x' },
+            { agent: echoAgent('second'), input: 'y' },
+            { agent: echoAgent('third'), input: 'z' }
+        ], { budget: { max_output_tokens: 4 } });
+
+        expect(result.results).toHaveLength(2);
+        expect(result.stop_reason).toBe('budget_exceeded');
+    });
+});
+
+describe('runChain', () => {
+    it('reports step progress and the agents\' tokens', async () => {
+        const run = runChain([
+            { agent: new Agent({ name: 'writer', provider: new ScriptedProvider([{ text: ['Hel', 'lo'] }]) }), input: 'Hi' }
+        ]);
+        const events: string[] = [];
+        run.on('step_start', ({ index, agent }) => events.push(`step_start:${index}:${agent}`));
+        run.on('token', ({ index, payload }) => events.push(`token:${index}:${payload}`));
+        run.on('step_end', ({ response }) => events.push(`step_end:${response.content}`));
+        run.on('chain_end', result => events.push(`chain_end:${result.results.length}`));
+
+        await run.result;
+
+        expect(events).toEqual(['step_start:0:writer', 'token:0:Hel', 'token:0:lo', 'step_end:Hello', 'chain_end:1']);
+    });
+
+    it('rejects with an AgentAbortError when aborted', async () => {
+        const run = runChain([
+            { agent: new Agent({ name: 'slow', provider: new ScriptedProvider([{ text: 'late', delay_ms: 50 }]) }), input: 'Hi' }
+        ]);
+        const aborted: unknown[] = [];
+        run.on('aborted', payload => aborted.push(payload));
+        setTimeout(() => run.abort('stop'), 5);
+
+        await expect(run.result).rejects.toBeInstanceOf(AgentAbortError);
+        expect(aborted).toHaveLength(1);
+    });
+
+    it('only forwards and counts the events of its own step run', async () => {
+        // Turns are picked by conversation, whichever run calls first
+        const turn = (call: RecordedCall): ScriptedTurn => {
+            const messages = call.messages as AgentMessage[];
+            if (messages[0].content === 'Hi') return { text: ['chain'], delay_ms: 10 };
+            if (messages.some(message => message.role === 'tool')) return { text: 'other done' };
+            return { tool_calls: [{ name: 'noop', arguments: {} }], text: ['other'], delay_ms: 2 };
+        };
+        const provider = new ScriptedProvider([turn, turn, turn]);
+        const agent = new Agent({ name: 'shared', provider, tools: [noop], max_tool_iterations: 2 });
+
+        const run = runChain([{ agent, input: 'Hi' }], { budget: { max_tool_calls: 5 } });
+        const tokens: string[] = [];
+        const toolStarts: unknown[] = [];
+        run.on('token', ({ payload }) => tokens.push(payload));
+        run.on('tool_start', event => toolStarts.push(event));
+        // Another request using the same agent instance while the chain step runs
+        await Promise.resolve();
+        const other = agent.run('Something else');
+
+        const [result] = await Promise.all([run.result, other]);
+
+        expect(tokens).toEqual(['chain']);
+        expect(toolStarts).toEqual([]);
+        expect(result.results[0].content).toBe('chain');
+    });
+});
@@ -1,5 +1,9 @@
+import { EventEmitter } from 'events';
 import { Agent } from './agent';
-import { AgentResponse } from './types';
+import { AgentEvent, AgentEventType, AgentResponse, Budget } from './types';
+import { AgentPulseError } from './errors';
+import { normalizeError } from './utils/error-utils';
+import { Span, Tracer } from './tracing/tracer';
 
 /**
  * Configuration for a single agent in the chain
@@ -7,6 +11,46 @@ import { AgentResponse } from './types';
 export interface ChainStep {
     agent: Agent;
     input: string | any[] | ((previousResults: AgentResponse[]) => string | any[] | any);
+    name?: string; // Recorded in the path (default: the agent's name)
+}
+
+/**
+ * Picks the steps to run next from the results so far, e.g. a classifier's structured output.
+ */
+export interface RouterStep {
+    route: (previousResults: AgentResponse[]) => string | Promise<string>;
+    routes: Record<string, ChainNode | ChainNode[]>;
+    default?: ChainNode | ChainNode[]; // Taken for unknown routes; without it they throw
+    name?: string;
+}
+
+/**
+ * Repeats its steps until `until` returns true or `max_iterations` rounds have run.
+ * `until` is checked after every step, so a loop can end in the middle of a round
+ * (e.g. right after a critic approves, before the reviser runs again).
+ */
+export interface LoopStep {
+    loop: ChainNode[];
+    until: (previousResults: AgentResponse[], iteration: number) => boolean | Promise<boolean>;
+    max_iterations: number;
+    name?: string;
+}
+
+/**
+ * Anything a chain can run: an agent step, a router or a loop.
+ */
+export type ChainNode = ChainStep | RouterStep | LoopStep;
+
+/**
+ * One entry of the path a chain took through its routers and loops.
+ */
+export interface ChainPathEntry {
+    type: 'agent' | 'router' | 'loop';
+    step: string; // The step's name
+    result_index?: number; // agent: position of its response in `results`
+    route?: string; // router: the route taken
+    iteration?: number; // loop: the round starting, or the last round when `exit` is set
+    exit?: 'until' | 'max_iterations'; // loop: why it ended
 }
 
 /**
@@ -14,15 +58,73 @@ export interface ChainStep {
  */
 export interface ChainResult {
     results: AgentResponse[];
+    path: ChainPathEntry[];
     totalLatency: number;
     totalTokens: number;
+    totalCost?: number; // USD, set when every step reported a cost
+    stop_reason?: 'budget_exceeded'; // Set when the chain budget stopped it early
+}
+
+export interface ChainOptions {
+    budget?: Budget; // Shared by all steps; each step gets what earlier steps left over
+    tracer?: Tracer; // Records a chain span with each step's run span as a child
+    signal?: AbortSignal; // Cancels the running step and the rest of the chain
+}
+
+/**
+ * Payload of `step_start`. `index` is the position the step's response will take in `results`.
+ */
+export interface ChainStepStart {
+    index: number;
+    step: string;
+    agent: string;
+    input: string | any[];
+}
+
+export interface ChainStepEnd {
+    index: number;
+    step: string;
+    agent: string;
+    response: AgentResponse;
 }
 
+/**
+ * A `token`, `token_reset`, `tool_start` or `tool_end` event of a step's agent, re-emitted by the chain run.
+ */
+export interface ChainStepEvent<TPayload = any> {
+    index: number;
+    agent: string;
+    payload: TPayload;
+}
+
+// Agent events a chain run re-emits, tagged with the step
+const STEP_EVENTS: AgentEventType[] = ['token', 'token_reset', 'tool_start', 'tool_end'];
+
+interface ChainState {
+    results: AgentResponse[];
+    path: ChainPathEntry[];
+    options: ChainOptions;
+    startTime: number;
+    spent: { input_tokens: number; output_tokens: number; cost_usd: number; tool_calls: number };
+    totalLatency: number;
+    totalTokens: number;
+    totalCost: number | undefined;
+    stopReason?: ChainResult['stop_reason'];
+    span?: Span;
+    run: ChainRun;
+    signal: AbortSignal;
+}
+
+// How a list of steps ended: all ran, a loop's `until` matched, or the chain must stop
+type StepsOutcome = 'done' | 'until' | 'stop';
+
 /**
  * Chains multiple agents to run sequentially.
  * Each agent waits for the previous one to complete before starting.
+ * Router and loop steps add branches and repetition; `path` records what actually ran.
  * 
- * @param steps - Array of chain steps, each containing an agent and its input
+ * @param steps - Array of chain steps: agents, routers and loops
+ * @param options - Chain options such as a shared budget
  * @returns Promise that resolves with all agent responses
  * 
  * @example
@@ -36,58 +138,262 @@ export interface ChainResult {
  * console.log(result.results[0].content); // First agent output
  * console.log(result.results[1].content); // Second agent output
  * console.log(result.totalTokens); // Total tokens used
+ * console.log(result.totalCost); // Total cost in USD
+ * ```
+ *
+ * @example
+ * ```typescript
+ * const result = await chain([
+ *   { agent: classifier, input: ticket },
+ *   {
+ *     route: (results) => results[0].content.category,
+ *     routes: { billing: { agent: billingAgent, input: ticket }, technical: { agent: supportAgent, input: ticket } }
+ *   },
+ *   {
+ *     loop: [
+ *       { agent: critic, input: (results) => results[results.length - 1].content },
+ *       { agent: reviser, input: (results) => JSON.stringify(results.slice(-2).map(r => r.content)) }
+ *     ],
+ *     until: (results) => results[results.length - 1].content.approved === true,
+ *     max_iterations: 3
+ *   }
+ * ]);
+ * console.log(result.path);
  * ```
  */
-export async function chain(steps: ChainStep[]): Promise<ChainResult> {
-    const results: AgentResponse[] = [];
-    let totalLatency = 0;
-    let totalTokens = 0;
+export function chain(steps: ChainNode[], options: ChainOptions = {}): Promise<ChainResult> {
+    return runChain(steps, options).result;
+}
 
-    for (const step of steps) {
-        // Determine the input for this agent
-        let input: string | any[];
-        if (typeof step.input === 'function') {
-            input = step.input(results);
+/**
+ * Starts a chain and returns it as a `ChainRun`, whose events report progress while it runs.
+ *
+ * @example
+ * ```typescript
+ * const run = runChain([
+ *   { agent: researcher, input: topic },
+ *   { agent: writer, input: (results) => results[0].content }
+ * ]);
+ * run.on('step_start', ({ index, agent }) => console.log(`Step ${index}: ${agent}`));
+ * run.on('token', ({ payload }) => process.stdout.write(payload));
+ * const result = await run.result;
+ * ```
+ */
+export function runChain(steps: ChainNode[], options: ChainOptions = {}): ChainRun {
+    return new ChainRun(steps, options);
+}
+
+/**
+ * A running chain. Emits:
+ * - `step_start` ({@link ChainStepStart}) and `step_end` ({@link ChainStepEnd}) around every agent step
+ * - `token`, `token_reset`, `tool_start` and `tool_end` of the step's agent ({@link ChainStepEvent})
+ * - `chain_end` with the `ChainResult`, `error` when a step fails, `aborted` when the chain is cancelled
+ *
+ * The chain starts on the next microtask, so listeners attached right after `runChain()` miss nothing.
+ */
+export class ChainRun extends EventEmitter {
+    readonly result: Promise<ChainResult>;
+    private controller = new AbortController();
+
+    constructor(steps: ChainNode[], options: ChainOptions = {}) {
+        super();
+        const externalSignal = options.signal;
+        const onExternalAbort = () => this.controller.abort(externalSignal?.reason);
+        if (externalSignal?.aborted) {
+            this.controller.abort(externalSignal.reason);
         } else {
-            input = step.input;
+            externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
         }
 
-        // Run the agent and wait for completion
-        const response = await new Promise<AgentResponse>((resolve, reject) => {
-            // Set up one-time listeners
-            const onResponse = (res: AgentResponse) => {
-                cleanup();
-                resolve(res);
-            };
-
-            const onError = (error: any) => {
-                cleanup();
-                reject(error);
-            };
-
-            const cleanup = () => {
-                step.agent.removeListener('response', onResponse);
-                step.agent.removeListener('error', onError);
-            };
-
-            step.agent.once('response', onResponse);
-            step.agent.once('error', onError);
-
-            // Start the agent
-            step.agent.run(input).catch(reject);
-        });
-
-        // Collect results
-        results.push(response);
-        totalLatency += response.meta.latency_ms || 0;
-        totalTokens += response.usage?.total_tokens || 0;
+        this.result = Promise.resolve()
+            .then(() => this.execute(steps, options))
+            .finally(() => externalSignal?.removeEventListener('abort', onExternalAbort));
+        // Failures reach callers through `result` and the `error` event; a run nobody awaits must not crash the process
+        this.result.catch(() => undefined);
+    }
+
+    /**
+     * Cancels the running step; `result` rejects with an `AgentAbortError`.
+     */
+    abort(reason?: any): void {
+        this.controller.abort(reason);
     }
 
-    return {
-        results,
-        totalLatency,
-        totalTokens
+    private async execute(steps: ChainNode[], options: ChainOptions): Promise<ChainResult> {
+        const state: ChainState = {
+            results: [],
+            path: [],
+            options,
+            startTime: Date.now(),
+            spent: { input_tokens: 0, output_tokens: 0, cost_usd: 0, tool_calls: 0 },
+            totalLatency: 0,
+            totalTokens: 0,
+            totalCost: 0,
+            run: this,
+            signal: this.controller.signal
+        };
+        state.span = options.tracer?.startSpan('chain', 'chain', { attributes: { steps: steps.length } });
+
+        try {
+            await runSteps(steps, state);
+        } catch (error) {
+            state.span?.recordError(error);
+            if (state.signal.aborted) {
+                this.emit('aborted', { timestamp: Date.now(), reason: state.signal.reason });
+            } else if (this.listenerCount('error') > 0) {
+                this.emit('error', normalizeError(error));
+            }
+            throw error;
+        } finally {
+            state.span?.setAttributes({
+                completed_steps: state.results.length,
+                total_tokens: state.totalTokens,
+                cost_usd: state.totalCost,
+                stop_reason: state.stopReason
+            });
+            state.span?.end();
+        }
+
+        const result: ChainResult = {
+            results: state.results,
+            path: state.path,
+            totalLatency: state.totalLatency,
+            totalTokens: state.totalTokens,
+            totalCost: state.totalCost,
+            ...(state.stopReason && { stop_reason: state.stopReason })
+        };
+        this.emit('chain_end', result);
+        return result;
+    }
+}
+
+/**
+ * Runs steps in order. `afterStep` lets the enclosing loop end after any of them.
+ */
+async function runSteps(steps: ChainNode[], state: ChainState, afterStep?: () => Promise<boolean>): Promise<StepsOutcome> {
+    for (const step of steps) {
+        const outcome = await runStep(step, state);
+        if (outcome === 'stop') return 'stop';
+        if (afterStep && await afterStep()) return 'until';
+    }
+    return 'done';
+}
+
+async function runStep(step: ChainNode, state: ChainState): Promise<'done' | 'stop'> {
+    if ('route' in step) {
+        const name = step.name || 'router';
+        const route = await step.route(state.results);
+        const branch = Object.prototype.hasOwnProperty.call(step.routes, route) ? step.routes[route] : step.default;
+        if (!branch) {
+            throw new AgentPulseError('execution_error', `Router "${name}" returned unknown route "${route}"`, {
+                kind: 'invalid_request',
+                routes: Object.keys(step.routes)
+            });
+        }
+        state.path.push({ type: 'router', step: name, route: String(route) });
+        return await runSteps(Array.isArray(branch) ? branch : [branch], state) === 'stop' ? 'stop' : 'done';
+    }
+
+    if ('loop' in step) {
+        const name = step.name || 'loop';
+        for (let iteration = 1; iteration <= step.max_iterations; iteration++) {
+            state.path.push({ type: 'loop', step: name, iteration });
+            const outcome = await runSteps(step.loop, state, async () => step.until(state.results, iteration));
+            if (outcome === 'stop') return 'stop';
+            if (outcome === 'until') {
+                state.path.push({ type: 'loop', step: name, iteration, exit: 'until' });
+                return 'done';
+            }
+        }
+        state.path.push({ type: 'loop', step: name, iteration: step.max_iterations, exit: 'max_iterations' });
+        return 'done';
+    }
+
+    return runAgentStep(step, state);
+}
+
+async function runAgentStep(step: ChainStep, state: ChainState): Promise<'done' | 'stop'> {
+    const { results, spent, options } = state;
+    const budget = options.budget && remainingBudget(options.budget, spent, Date.now() - state.startTime);
+    if (budget === null) {
+        state.stopReason = 'budget_exceeded';
+        return 'stop';
+    }
+
+    // Determine the input for this agent
+    let input: string | any[];
+    if (typeof step.input === 'function') {
+        input = step.input(results);
+    } else {
+        input = step.input;
+    }
+
+    const index = results.length;
+    const name = step.name || step.agent.name;
+    state.run.emit('step_start', { index, step: name, agent: step.agent.name, input });
+
+    // Run the agent and wait for completion. Awaiting run() rather than its `response` event
+    // guarantees the step's run span has ended before the next step starts.
+    // onEvent sees this run only, not other runs of the same agent instance
+    const onEvent = (event: AgentEvent) => {
+        if (event.type === 'tool_start') {
+            spent.tool_calls++;
+        }
+        if (STEP_EVENTS.includes(event.type)) {
+            state.run.emit(event.type, { index, agent: step.agent.name, payload: event.payload });
+        }
     };
+    const response = await step.agent.run(input, {
+        budget,
+        signal: state.signal,
+        tracer: options.tracer,
+        parent_span: state.span?.context,
+        onEvent
+    });
+
+    // Collect results
+    results.push(response);
+    state.path.push({ type: 'agent', step: name, result_index: index });
+    state.run.emit('step_end', { index, step: name, agent: step.agent.name, response });
+    state.totalLatency += response.meta.latency_ms || 0;
+    state.totalTokens += response.usage?.total_tokens || 0;
+    state.totalCost = state.totalCost !== undefined && response.usage?.cost_usd !== undefined
+        ? state.totalCost + response.usage.cost_usd
+        : undefined;
+    spent.input_tokens += response.usage?.input_tokens || 0;
+    spent.output_tokens += response.usage?.output_tokens || 0;
+    spent.cost_usd += response.usage?.cost_usd || 0;
+
+    if (response.meta?.stop_reason === 'budget_exceeded') {
+        state.stopReason = 'budget_exceeded';
+        return 'stop';
+    }
+    return 'done';
+}
+
+/**
+ * What is left of a chain budget after the steps so far, or null when a limit is used up.
+ */
+function remainingBudget(
+    budget: Budget,
+    spent: { input_tokens: number; output_tokens: number; cost_usd: number; tool_calls: number },
+    elapsedMs: number
+): Budget | null {
+    const used: Record<keyof Budget, number> = {
+        max_input_tokens: spent.input_tokens,
+        max_output_tokens: spent.output_tokens,
+        max_cost_usd: spent.cost_usd,
+        max_duration_ms: elapsedMs,
+        max_tool_calls: spent.tool_calls
+    };
+    const remaining: Budget = {};
+    for (const key of Object.keys(used) as (keyof Budget)[]) {
+        const max = budget[key];
+        if (max === undefined) continue;
+        if (used[key] >= max) return null;
+        remaining[key] = max - used[key];
+    }
+    return remaining;
 }
 
 /**
@@ -96,6 +402,7 @@ export async function chain(steps: ChainStep[]): Promise<ChainResult> {
  * 
  * @param agents - Array of agents to chain
  * @param initialInput - Input for the first agent
+ * @param options - Chain options such as a shared budget
  * @returns Promise that resolves with all agent responses
  * 
  * @example
@@ -106,7 +413,8 @@ export async function chain(steps: ChainStep[]): Promise<ChainResult> {
  */
 export async function simpleChain(
     agents: Agent[],
-    initialInput: string | any[]
+    initialInput: string | any[],
+    options: ChainOptions = {}
 ): Promise<ChainResult> {
     const steps: ChainStep[] = agents.map((agent, index) => ({
         agent,
@@ -115,5 +423,5 @@ export async function simpleChain(
             : (results) => results[index - 1].content
     }));
 
-    return chain(steps);
+    return chain(steps, options);
 }
@@ -0,0 +1,43 @@
+import { AgentError, AgentErrorDetails } from './types';
+
+/**
+ * Typed error thrown by `agent.run()` and the built-in providers.
+ * Mirrors the `error` event payload so callers can branch on `error_key`.
+ */
+export class AgentPulseError extends Error implements AgentError {
+    error_key: AgentError['error_key'];
+    details: AgentErrorDetails;
+
+    constructor(error_key: AgentError['error_key'], message: string, details: AgentErrorDetails) {
+        super(message);
+        this.name = 'AgentPulseError';
+        this.error_key = error_key;
+        this.details = details;
+    }
+
+    /**
+     * Serializable form used as the `error` event payload.
+     */
+    toJSON(): AgentError {
+        const { cause, ...rest } = this.details;
+        return {
+            error_key: this.error_key,
+            message: this.message,
+            details: rest
+        };
+    }
+}
+
+/**
+ * Thrown by `agent.run()` when the run is cancelled, either through the
+ * `signal` passed in the run options or by calling `agent.abort()`.
+ */
+export class AgentAbortError extends Error {
+    reason?: any;
+
+    constructor(message: string = 'Agent run was aborted', reason?: any) {
+        super(message);
+        this.name = 'AgentAbortError';
+        this.reason = reason;
+    }
+}
@@ -1,12 +1,22 @@
 
 export * from './agent';
 export * from './types';
+export * from './errors';
 export * from './providers'; // Export classes directly
 export * from './sse';
 export * from './chain';
+export * from './workflow';
+export * from './session';
+export * from './memory';
+export * from './tracing';
 
 // Aliases for better DX and modular imports
 export { OpenAIProvider as openAI } from './providers';
 export { GoogleProvider as google } from './providers';
 export { GrokProvider as xai, GrokProvider as grok } from './providers';
+export { AnthropicProvider as anthropic, AnthropicProvider as claude } from './providers';
+export { OpenAICompatibleProvider as openAICompatible } from './providers';
 export * from './utils/image-utils';
+export { normalizeError } from './utils/error-utils';
+export { estimateTokens, getContextLimit, registerContextLimit } from './utils/token-utils';
+export { registerModelPrice, getModelPrice, computeCost } from './utils/pricing-utils';
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentMessage, MemoryStore } from './types';
+
+/**
+ * Keeps session histories in process memory. Lost on restart; useful for tests and single-instance apps.
+ */
+export class InMemoryStore implements MemoryStore {
+    private sessions = new Map<string, AgentMessage[]>();
+
+    async load(sessionId: string): Promise<AgentMessage[]> {
+        return [...(this.sessions.get(sessionId) || [])];
+    }
+
+    async append(sessionId: string, messages: AgentMessage[]): Promise<void> {
+        this.sessions.set(sessionId, [...(this.sessions.get(sessionId) || []), ...messages]);
+    }
+
+    async clear(sessionId: string): Promise<void> {
+        this.sessions.delete(sessionId);
+    }
+}
+
+/**
+ * Stores each session as a JSON Lines file (`<directory>/<sessionId>.jsonl`, one message per line).
+ * A batch of messages is written with a single append, so a run is never half-persisted.
+ */
+export class JsonlFileStore implements MemoryStore {
+    private directory: string;
+
+    constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    async load(sessionId: string): Promise<AgentMessage[]> {
+        const filePath = this.filePath(sessionId);
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+        const content = await fs.promises.readFile(filePath, 'utf-8');
+        return content
+            .split('\n')
+            .filter(line => line.trim())
+            .map(line => JSON.parse(line));
+    }
+
+    async append(sessionId: string, messages: AgentMessage[]): Promise<void> {
+        if (messages.length === 0) return;
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const lines = messages.map(m => JSON.stringify(m)).join('\n') + '\n';
+        await fs.promises.appendFile(this.filePath(sessionId), lines, 'utf-8');
+    }
+
+    async clear(sessionId: string): Promise<void> {
+        await fs.promises.rm(this.filePath(sessionId), { force: true });
+    }
+
+    private filePath(sessionId: string): string {
+        // Session IDs often come from users; keep them from escaping the directory
+        return path.join(this.directory, `${encodeURIComponent(sessionId)}.jsonl`);
+    }
+}
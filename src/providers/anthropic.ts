@@ -0,0 +1,264 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, AgentTool, AgentResponse, AgentMessage, ProviderOptions, ProviderEvent, TokenUsage } from '../types';
+import { z } from 'zod';
+import { readMarkdownFiles, isImageFile, readImageFile } from '../utils/file-utils';
+import { normalizeError, normalizeStreamErrors } from '../utils/error-utils';
+import { parseToolArguments } from '../utils/tool-utils';
+import { resolveProviderOptions } from '../utils/provider-utils';
+import { toProviderJSONSchema } from '../utils/schema-utils';
+
+// Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Models released before structured outputs (`output_config.format`)
+const LEGACY_JSON_MODELS = /^claude-(instant|2|3)|^claude-(opus|sonnet)-4-(0|2025)/;
+
+function supportsStructuredOutputs(model: string): boolean {
+    return !LEGACY_JSON_MODELS.test(model);
+}
+
+type ImageMediaType = Anthropic.Base64ImageSource['media_type'];
+
+function imageMediaType(file: string): ImageMediaType | undefined {
+    const ext = file.split('.').pop()?.toLowerCase();
+    if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg';
+    if (ext === 'png') return 'image/png';
+    if (ext === 'webp') return 'image/webp';
+    if (ext === 'gif') return 'image/gif';
+    return undefined; // HEIC/HEIF are not supported by the Messages API
+}
+
+export class AnthropicProvider implements LLMProvider {
+    private client: Anthropic;
+    readonly model: string;
+
+    constructor(model: string, apiKeyOrOptions?: string | ProviderOptions) {
+        this.model = model;
+        const options = resolveProviderOptions(apiKeyOrOptions);
+        const key = options.apiKey || process.env.ANTHROPIC_API_KEY;
+        this.client = new Anthropic({
+            apiKey: key,
+            baseURL: options.baseURL,
+            defaultHeaders: options.headers,
+            timeout: options.timeout,
+            maxRetries: 0, // Retries are up to the agent's retry policy, which reports them as events
+        });
+    }
+
+    async generate(
+        system: string | undefined,
+        prompt: string | AgentMessage[],
+        files: string[] | undefined,
+        tools: AgentTool[] | undefined,
+        config: Record<string, any> | undefined,
+        output_schema: z.ZodType<any> | undefined,
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        const nativeSchema = !!output_schema && (config?.structured_outputs ?? supportsStructuredOutputs(this.model));
+
+        // 1. Prepare messages
+        const messages: Anthropic.MessageParam[] = [];
+
+        if (Array.isArray(prompt)) {
+            for (const msg of prompt) {
+                if (msg.role === 'user') {
+                    messages.push({ role: 'user', content: msg.content });
+                } else if (msg.role === 'assistant') {
+                    // Thinking blocks go first, unchanged, or the API rejects the tool loop
+                    const blocks: Anthropic.ContentBlockParam[] = [...(msg.reasoning_blocks || [])];
+                    if (msg.content) {
+                        blocks.push({ type: 'text', text: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content) });
+                    }
+                    for (const tc of msg.tool_calls || []) {
+                        blocks.push({
+                            type: 'tool_use',
+                            id: tc.id,
+                            name: tc.name,
+                            input: typeof tc.arguments === 'string' ? parseToolArguments(tc.arguments) : tc.arguments
+                        });
+                    }
+                    if (blocks.length > 0) {
+                        messages.push({ role: 'assistant', content: blocks });
+                    }
+                } else if (msg.role === 'tool') {
+                    const result: Anthropic.ToolResultBlockParam = {
+                        type: 'tool_result',
+                        tool_use_id: msg.tool_call_id!,
+                        content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
+                    };
+                    // Results of parallel tool calls belong in a single user turn
+                    const previous = messages[messages.length - 1];
+                    if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content.every(b => b.type === 'tool_result')) {
+                        previous.content.push(result);
+                    } else {
+                        messages.push({ role: 'user', content: [result] });
+                    }
+                }
+            }
+        } else {
+            messages.push({ role: 'user', content: prompt });
+        }
+
+        // Attach files and the reference image to the last user message
+        const lastUser = [...messages].reverse().find(m => m.role === 'user');
+        if (lastUser && ((files && files.length > 0) || config?.reference_image)) {
+            const blocks: Anthropic.ContentBlockParam[] = typeof lastUser.content === 'string'
+                ? [{ type: 'text', text: lastUser.content }]
+                : lastUser.content;
+
+            if (files && files.length > 0) {
+                let textContent: string;
+                try {
+                    textContent = readMarkdownFiles(files);
+                } catch (error: any) {
+                    throw new Error(`File reading error: ${error.message}`);
+                }
+                if (textContent) {
+                    blocks.unshift({ type: 'text', text: textContent });
+                }
+
+                for (const file of files.filter(f => isImageFile(f))) {
+                    const mediaType = imageMediaType(file);
+                    if (!mediaType) {
+                        console.warn(`Skipping image ${file}: format not supported by Anthropic`);
+                        continue;
+                    }
+                    try {
+                        blocks.push({ type: 'image', source: { type: 'base64', media_type: mediaType, data: readImageFile(file) } });
+                    } catch (e: any) {
+                        console.warn(`Failed to read image ${file}:`, e);
+                    }
+                }
+            }
+
+            if (config?.reference_image) {
+                const dataUriMatch = String(config.reference_image).match(/^data:(image\/\w+);base64,(.+)$/);
+                if (dataUriMatch) {
+                    blocks.push({ type: 'image', source: { type: 'base64', media_type: dataUriMatch[1] as ImageMediaType, data: dataUriMatch[2] } });
+                }
+            }
+
+            lastUser.content = blocks;
+        }
+
+        // 2. Prepare system prompt (older models get the schema as an instruction instead of output_config)
+        let systemPrompt = system;
+        if (output_schema && !nativeSchema) {
+            const instruction = `Respond only with valid JSON matching this JSON schema:\n${JSON.stringify(toProviderJSONSchema(output_schema).schema)}`;
+            systemPrompt = systemPrompt ? `${systemPrompt}\n\n${instruction}` : instruction;
+        }
+
+        // 3. Prepare Tools
+        let anthropicTools: Anthropic.Tool[] | undefined;
+        if (tools && tools.length > 0) {
+            anthropicTools = tools.map(t => ({
+                name: t.name,
+                description: t.description,
+                input_schema: toProviderJSONSchema(t.parameters).schema as Anthropic.Tool.InputSchema,
+                ...(t.strict && { strict: true })
+            }));
+        }
+
+        // 4. Call API
+        const params: Anthropic.MessageCreateParamsStreaming = {
+            model: this.model,
+            system: systemPrompt,
+            messages,
+            tools: anthropicTools,
+            stream: true,
+            max_tokens: config?.max_tokens ?? DEFAULT_MAX_TOKENS,
+            temperature: config?.temperature,
+            top_p: config?.top_p,
+            ...(config?.thinking && { thinking: config.thinking }), // e.g. { type: 'enabled', budget_tokens: 2048 }
+        };
+        if (output_schema && nativeSchema) {
+            params.output_config = { format: { type: 'json_schema', schema: toProviderJSONSchema(output_schema).schema } };
+        }
+
+        let stream: AsyncIterable<Anthropic.RawMessageStreamEvent>;
+        try {
+            stream = await this.client.messages.create(params, { signal });
+        } catch (error) {
+            throw normalizeError(error, 'anthropic');
+        }
+
+        let fullContent = '';
+        const toolCalls: { id: string; name: string; json: string }[] = [];
+        const blockToolCall = new Map<number, { id: string; name: string; json: string }>();
+        const thinkingBlocks = new Map<number, Anthropic.ThinkingBlockParam | Anthropic.RedactedThinkingBlockParam>();
+        let usage: TokenUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+        let finishReason: string | null = null;
+
+        // Stream loop
+        for await (const event of normalizeStreamErrors(stream, 'anthropic')) {
+            if (event.type === 'message_start') {
+                const u = event.message.usage;
+                usage.input_tokens = u.input_tokens + (u.cache_read_input_tokens || 0) + (u.cache_creation_input_tokens || 0);
+                usage.output_tokens = u.output_tokens;
+                if (u.cache_read_input_tokens) {
+                    usage.cached_input_tokens = u.cache_read_input_tokens;
+                }
+            } else if (event.type === 'content_block_start') {
+                if (event.content_block.type === 'tool_use') {
+                    const call = { id: event.content_block.id, name: event.content_block.name, json: '' };
+                    blockToolCall.set(event.index, call);
+                    toolCalls.push(call);
+                } else if (event.content_block.type === 'thinking') {
+                    thinkingBlocks.set(event.index, { type: 'thinking', thinking: event.content_block.thinking, signature: event.content_block.signature });
+                } else if (event.content_block.type === 'redacted_thinking') {
+                    thinkingBlocks.set(event.index, { type: 'redacted_thinking', data: event.content_block.data });
+                }
+            } else if (event.type === 'content_block_delta') {
+                if (event.delta.type === 'text_delta') {
+                    fullContent += event.delta.text;
+                    onToken(event.delta.text);
+                } else if (event.delta.type === 'thinking_delta') {
+                    const block = thinkingBlocks.get(event.index);
+                    if (block?.type === 'thinking') {
+                        block.thinking += event.delta.thinking;
+                    }
+                    onEvent?.({ type: 'reasoning', text: event.delta.thinking });
+                } else if (event.delta.type === 'signature_delta') {
+                    const block = thinkingBlocks.get(event.index);
+                    if (block?.type === 'thinking') {
+                        block.signature += event.delta.signature;
+                    }
+                } else if (event.delta.type === 'input_json_delta') {
+                    const call = blockToolCall.get(event.index);
+                    if (call) {
+                        call.json += event.delta.partial_json;
+                        onEvent?.({
+                            type: 'tool_call_delta',
+                            index: toolCalls.indexOf(call),
+                            id: call.id,
+                            name: call.name,
+                            arguments_delta: event.delta.partial_json,
+                            arguments: call.json
+                        });
+                    }
+                }
+            } else if (event.type === 'message_delta') {
+                usage.output_tokens = event.usage.output_tokens;
+                finishReason = event.delta.stop_reason;
+            }
+        }
+        usage.total_tokens = usage.input_tokens + usage.output_tokens;
+
+        return {
+            content: fullContent, // Structured output is parsed and validated by the Agent
+            tool_calls: toolCalls.length > 0
+                ? toolCalls.map(tc => ({ id: tc.id, name: tc.name, arguments: parseToolArguments(tc.json) }))
+                : undefined,
+            ...(toolCalls.length > 0 && thinkingBlocks.size > 0 && { reasoning_blocks: [...thinkingBlocks.values()] }),
+            usage,
+            meta: {
+                model: this.model,
+                latency_ms: 0,
+                // Not `stop_reason`, the agent sets that for its own reasons (budget_exceeded, approval_required)
+                finish_reason: finishReason
+            }
+        };
+    }
+}
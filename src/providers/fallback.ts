@@ -0,0 +1,160 @@
+import { LLMProvider, AgentTool, AgentResponse, AgentMessage, ErrorKind, ProviderEvent } from '../types';
+import { z } from 'zod';
+import { normalizeError } from '../utils/error-utils';
+import { isImageFile } from '../utils/file-utils';
+
+export interface NamedProvider {
+    name: string;
+    provider: LLMProvider;
+}
+
+/**
+ * Request summary handed to a `route` function.
+ */
+export interface RouteRequest {
+    system: string | undefined;
+    prompt: string | AgentMessage[];
+    files: string[] | undefined;
+    tools: AgentTool[] | undefined;
+    config: Record<string, any> | undefined;
+    prompt_length: number; // Characters across the system prompt and all messages
+    has_images: boolean; // Whether `files` contains images
+}
+
+export interface FallbackProviderOptions {
+    fallback_on?: ErrorKind[]; // Error kinds that move on to the next provider (default: rate_limit, server_error, timeout, connection, content_filter)
+    route?: (request: RouteRequest) => string | number | undefined; // Picks the first provider to try, by name or index
+}
+
+const DEFAULT_FALLBACK_ON: ErrorKind[] = ['rate_limit', 'server_error', 'timeout', 'connection', 'content_filter'];
+
+function contentLength(content: any): number {
+    if (content === null || content === undefined) return 0;
+    return typeof content === 'string' ? content.length : JSON.stringify(content).length;
+}
+
+/**
+ * LLMProvider composed of several providers. Providers are tried in order and the next one
+ * is used when a call fails with one of the `fallback_on` error kinds. With `route`, a
+ * user function picks the provider to try first.
+ *
+ * A provider that fails after it already streamed tokens is not replaced, so consumers never
+ * see output from two providers; the error propagates (and can be retried by the agent's retry policy).
+ *
+ * `meta.provider` of the response names the provider that answered, and `meta.fallbacks` lists
+ * the failures that were skipped over.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FallbackProvider([
+ *   { name: 'gemini', provider: new google('gemini-3-flash') },
+ *   { name: 'gpt', provider: new openAI('gpt-5.2') },
+ *   { name: 'local', provider: new openAICompatible('llama3.1:8b', { baseURL: 'http://localhost:11434/v1' }) }
+ * ], {
+ *   route: (req) => req.has_images ? 'gemini' : req.prompt_length > 50000 ? 'gpt' : undefined
+ * });
+ * ```
+ */
+export class FallbackProvider implements LLMProvider {
+    private providers: NamedProvider[];
+    private options: FallbackProviderOptions;
+
+    constructor(providers: (LLMProvider | NamedProvider)[], options: FallbackProviderOptions = {}) {
+        if (providers.length === 0) {
+            throw new Error('FallbackProvider requires at least one provider');
+        }
+        this.providers = providers.map((p, index) =>
+            'provider' in p && 'name' in p ? p : { name: `provider_${index}`, provider: p as LLMProvider }
+        );
+        this.options = options;
+    }
+
+    async generate(
+        system: string | undefined,
+        prompt: string | AgentMessage[],
+        files: string[] | undefined,
+        tools: AgentTool[] | undefined,
+        config: Record<string, any> | undefined,
+        output_schema: z.ZodType<any> | undefined,
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        const fallbackOn = this.options.fallback_on ?? DEFAULT_FALLBACK_ON;
+        const fallbacks: { provider: string; error_key: string; kind: ErrorKind; message: string }[] = [];
+        let lastError: unknown;
+
+        for (const candidate of this.candidates(system, prompt, files, tools, config)) {
+            let streamed = false;
+            try {
+                const response = await candidate.provider.generate(
+                    system, prompt, files, tools, config, output_schema,
+                    (token) => {
+                        streamed = true;
+                        onToken(token);
+                    },
+                    signal,
+                    (event) => {
+                        streamed = true;
+                        onEvent?.(event);
+                    }
+                );
+                response.meta = { ...response.meta, provider: candidate.name, fallbacks };
+                return response;
+            } catch (error) {
+                if (signal?.aborted || streamed) {
+                    throw error;
+                }
+                const agentError = normalizeError(error);
+                if (!fallbackOn.includes(agentError.details.kind)) {
+                    throw agentError;
+                }
+                fallbacks.push({
+                    provider: candidate.name,
+                    error_key: agentError.error_key,
+                    kind: agentError.details.kind,
+                    message: agentError.message
+                });
+                lastError = agentError;
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Providers in the order they should be tried: the routed one first, then the rest.
+     */
+    private candidates(
+        system: string | undefined,
+        prompt: string | AgentMessage[],
+        files: string[] | undefined,
+        tools: AgentTool[] | undefined,
+        config: Record<string, any> | undefined
+    ): NamedProvider[] {
+        if (!this.options.route) {
+            return this.providers;
+        }
+
+        const messages = Array.isArray(prompt) ? prompt : [{ role: 'user', content: prompt }];
+        const choice = this.options.route({
+            system,
+            prompt,
+            files,
+            tools,
+            config,
+            prompt_length: contentLength(system) + messages.reduce((sum, m) => sum + contentLength(m.content), 0),
+            has_images: !!files?.some(f => isImageFile(f))
+        });
+        if (choice === undefined) {
+            return this.providers;
+        }
+
+        const index = typeof choice === 'number' ? choice : this.providers.findIndex(p => p.name === choice);
+        const first = this.providers[index];
+        if (!first) {
+            throw new Error(`FallbackProvider: route returned unknown provider '${choice}'. Known providers: ${this.providers.map(p => p.name).join(', ')}`);
+        }
+        return [first, ...this.providers.filter(p => p !== first)];
+    }
+}
@@ -1,19 +1,28 @@
 
 import { GoogleGenAI } from '@google/genai';
-import { LLMProvider, AgentTool, AgentResponse, AgentMessage } from '../types';
+import { LLMProvider, AgentTool, AgentResponse, AgentMessage, ProviderOptions, ProviderEvent, TokenUsage } from '../types';
 import { z, toJSONSchema } from 'zod';
 import { readMarkdownFiles, isImageFile, readImageFile } from '../utils/file-utils';
+import { normalizeError, normalizeStreamErrors } from '../utils/error-utils';
+import { resolveProviderOptions } from '../utils/provider-utils';
 
 
 export class GoogleProvider implements LLMProvider {
     private client: GoogleGenAI;
-    private model: string;
+    readonly model: string;
 
-    constructor(model: string, apiKey?: string) {
+    constructor(model: string, apiKeyOrOptions?: string | ProviderOptions) {
         // Google GenAI SDK expects model names in format "models/model-name"
         this.model = model.startsWith('models/') ? model : `models/${model}`;
-        const key = apiKey || process.env.GOOGLE_API_KEY;
-        this.client = new GoogleGenAI({ apiKey: key });
+        const options = resolveProviderOptions(apiKeyOrOptions);
+        const key = options.apiKey || process.env.GOOGLE_API_KEY;
+        const hasHttpOptions = options.baseURL || options.headers || options.timeout;
+        this.client = new GoogleGenAI({
+            apiKey: key,
+            ...(hasHttpOptions && {
+                httpOptions: { baseUrl: options.baseURL, headers: options.headers, timeout: options.timeout }
+            })
+        });
     }
 
     async generate(
@@ -23,7 +32,9 @@ export class GoogleProvider implements LLMProvider {
         tools: AgentTool[] | undefined,
         config: Record<string, any> | undefined,
         output_schema: z.ZodType<any> | undefined,
-        onToken: (token: string) => void
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
     ): Promise<AgentResponse> {
         // 1. Prepare Tools
         let googleTools: any[] | undefined;
@@ -43,6 +54,7 @@ export class GoogleProvider implements LLMProvider {
             maxOutputTokens: config?.max_tokens,
             topP: config?.top_p,
             tools: googleTools,
+            abortSignal: signal,
         };
 
         if (config?.googleSearch) {
@@ -63,6 +75,9 @@ export class GoogleProvider implements LLMProvider {
         if (config?.personGeneration) {
             generateConfig.personGeneration = config.personGeneration;
         }
+        if (config?.thinkingConfig) {
+            generateConfig.thinkingConfig = config.thinkingConfig;
+        }
 
         if (system) {
             generateConfig.systemInstruction = system;
@@ -217,26 +232,37 @@ export class GoogleProvider implements LLMProvider {
         }
 
         // 4. Call API (Streaming)
-        const result = await this.client.models.generateContentStream({
-            model: this.model,
-            contents: contents,
-            config: generateConfig
-        });
+        let result: AsyncGenerator<any>;
+        try {
+            result = await this.client.models.generateContentStream({
+                model: this.model,
+                contents: contents,
+                config: generateConfig
+            });
+        } catch (error) {
+            throw normalizeError(error, 'google');
+        }
 
         let fullText = '';
         let toolCalls: any[] = [];
-        let usage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+        let usage: TokenUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
         let groundingMetadata: any = undefined;
 
-        for await (const chunk of result) {
+        for await (const chunk of normalizeStreamErrors(result, 'google')) {
             // Log raw chunk for debugging if needed
             // console.log("CHUNK", JSON.stringify(chunk, null, 2));
 
-            // Text
-            const text = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
-            if (text) {
-                fullText += text;
-                onToken(text);
+            const parts = chunk.candidates?.[0]?.content?.parts;
+
+            // Text. Thought summaries (`thinkingConfig.includeThoughts`) arrive as parts flagged `thought`
+            for (const part of parts || []) {
+                if (!part.text) continue;
+                if (part.thought) {
+                    onEvent?.({ type: 'reasoning', text: part.text });
+                } else {
+                    fullText += part.text;
+                    onToken(part.text);
+                }
             }
 
             // Tool Calls
@@ -245,18 +271,21 @@ export class GoogleProvider implements LLMProvider {
             // Streaming tool calls might be tricky as they come in parts? 
             // Google usually sends the full function call in one chunk or at the end? 
             // Let's inspect the chunk structure via candidates.
-            const parts = chunk.candidates?.[0]?.content?.parts;
             if (parts) {
                 for (const part of parts) {
                     if (part.functionCall) {
                         // It seems Google sends full function call or we need to accumulate?
                         // Usually it's complete in the response object if stream is done, but in stream?
                         // Let's collect them.
-                        toolCalls.push({
+                        const call = {
                             name: part.functionCall.name,
                             arguments: part.functionCall.args, // Already parsed JSON usually
-                            id: 'call_' + Date.now() // Google doesn't always send ID, need to check
-                        });
+                            id: part.functionCall.id || `call_${Date.now()}_${toolCalls.length}` // Unique within the turn, approvals and results are matched by id
+                        };
+                        toolCalls.push(call);
+                        // Gemini does not stream arguments, the call arrives as a single delta
+                        const args = JSON.stringify(call.arguments ?? {});
+                        onEvent?.({ type: 'tool_call_delta', index: toolCalls.length - 1, id: call.id, name: call.name, arguments_delta: args, arguments: args });
                     }
                 }
             }
@@ -277,10 +306,15 @@ export class GoogleProvider implements LLMProvider {
 
             // Usage
             if (chunk.usageMetadata) {
+                // Thinking tokens are billed as output but not included in candidatesTokenCount
+                const thoughtsTokens = chunk.usageMetadata.thoughtsTokenCount;
+                const cachedTokens = chunk.usageMetadata.cachedContentTokenCount;
                 usage = {
                     input_tokens: chunk.usageMetadata.promptTokenCount || 0,
-                    output_tokens: chunk.usageMetadata.candidatesTokenCount || 0,
-                    total_tokens: chunk.usageMetadata.totalTokenCount || 0
+                    output_tokens: (chunk.usageMetadata.candidatesTokenCount || 0) + (thoughtsTokens || 0),
+                    total_tokens: chunk.usageMetadata.totalTokenCount || 0,
+                    ...(thoughtsTokens !== undefined && { reasoning_tokens: thoughtsTokens }),
+                    ...(cachedTokens !== undefined && { cached_input_tokens: cachedTokens })
                 };
             }
 
@@ -315,18 +349,8 @@ export class GoogleProvider implements LLMProvider {
             // Ignore if response promise fails or isn't available, we rely on chunks then
         }
 
-        // Parse structured output if needed (if not tool call)
-        let finalContent: string | object = fullText;
-        if (output_schema && !toolCalls.length) {
-            try {
-                finalContent = JSON.parse(fullText);
-            } catch (e) {
-                // ignore
-            }
-        }
-
         return {
-            content: finalContent,
+            content: fullText, // Structured output is parsed and validated by the Agent
             tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
             usage,
             meta: {
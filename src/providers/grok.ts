@@ -1,22 +1,28 @@
-import OpenAI from 'openai';
-import { LLMProvider, AgentTool, AgentResponse, AgentMessage } from '../types';
-import { z, toJSONSchema } from 'zod';
-import { readMarkdownFiles } from '../utils/file-utils';
-
-export class GrokProvider implements LLMProvider {
-    private client: OpenAI;
-    private model: string;
-
-    constructor(model: string, apiKey?: string) {
-        this.model = model;
-        const key = apiKey || process.env.GROK_API_KEY;
+import { AgentTool, AgentResponse, AgentMessage, ProviderOptions, ProviderEvent } from '../types';
+import { z } from 'zod';
+import { normalizeError } from '../utils/error-utils';
+import { resolveProviderOptions, requireApiKey } from '../utils/provider-utils';
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+// xAI supports `json_schema` on every language model except the original beta models
+const LEGACY_JSON_MODELS = /^grok-(vision-)?beta/;
+
+export class GrokProvider extends OpenAICompatibleProvider {
+    constructor(model: string, apiKeyOrOptions?: string | ProviderOptions) {
+        const options = resolveProviderOptions(apiKeyOrOptions);
         // Grok uses the OpenAI SDK with a custom base URL
-        this.client = new OpenAI({
-            apiKey: key,
-            baseURL: 'https://api.x.ai/v1',
+        super(model, {
+            ...options,
+            name: 'grok',
+            apiKey: requireApiKey(options.apiKey, 'GROK_API_KEY', 'grok'),
+            baseURL: options.baseURL || 'https://api.x.ai/v1',
         });
     }
 
+    protected supportsStructuredOutputs(): boolean {
+        return !LEGACY_JSON_MODELS.test(this.model);
+    }
+
     async generate(
         system: string | undefined,
         prompt: string | AgentMessage[],
@@ -24,9 +30,10 @@ export class GrokProvider implements LLMProvider {
         tools: AgentTool[] | undefined,
         config: Record<string, any> | undefined,
         output_schema: z.ZodType<any> | undefined,
-        onToken: (token: string) => void
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
     ): Promise<AgentResponse> {
-
         // Image generation mode — route to images API instead of chat completions
         if (this.model.includes('imagine')) {
             const promptText = Array.isArray(prompt)
@@ -37,14 +44,19 @@ export class GrokProvider implements LLMProvider {
             // For editing, just add image_url to the same request
             const imageUrl = config?.reference_image || config?.image_url;
 
-            const response = await (this.client.images.generate as any)({
-                model: this.model,
-                prompt: promptText,
-                n: config?.n || 1,
-                response_format: config?.response_format || 'b64_json',
-                ...(config?.aspect_ratio && { aspect_ratio: config.aspect_ratio }),
-                ...(imageUrl && { image_url: imageUrl }),
-            });
+            let response: any;
+            try {
+                response = await (this.client.images.generate as any)({
+                    model: this.model,
+                    prompt: promptText,
+                    n: config?.n || 1,
+                    response_format: config?.response_format || 'b64_json',
+                    ...(config?.aspect_ratio && { aspect_ratio: config.aspect_ratio }),
+                    ...(imageUrl && { image_url: imageUrl }),
+                }, { signal });
+            } catch (error) {
+                throw normalizeError(error, 'grok');
+            }
 
             const images = response.data;
 
@@ -65,162 +77,6 @@ export class GrokProvider implements LLMProvider {
             };
         }
 
-        // 1. Prepare messages
-        const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-        if (system) {
-            messages.push({ role: 'system', content: system });
-        }
-
-        if (Array.isArray(prompt)) {
-            // Mapping AgentMessage to OpenAI messages (Grok is compatible)
-            for (const msg of prompt) {
-                if (msg.role === 'user') {
-                    messages.push({ role: 'user', content: msg.content });
-                } else if (msg.role === 'assistant') {
-                    messages.push({
-                        role: 'assistant',
-                        content: msg.content || null,
-                        tool_calls: msg.tool_calls?.map(tc => ({
-                            id: tc.id,
-                            type: 'function',
-                            function: {
-                                name: tc.name,
-                                arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments)
-                            }
-                        }))
-                    });
-                } else if (msg.role === 'tool') {
-                    messages.push({
-                        role: 'tool',
-                        tool_call_id: msg.tool_call_id!,
-                        content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
-                    });
-                }
-            }
-        } else {
-            // Handle files - read markdown files and inject into prompt
-            let userContent: string = prompt;
-
-            // Read and append file contents if provided
-            if (files && files.length > 0) {
-                try {
-                    const fileContents = readMarkdownFiles(files);
-                    userContent = `${fileContents}\n\n${prompt}`;
-                } catch (error: any) {
-                    throw new Error(`File reading error: ${error.message}`);
-                }
-            }
-
-            // Grok might support json_mode, but let's be explicit if schema is requested
-            if (output_schema) {
-                userContent = `${userContent}\n\nPlease respond with valid JSON.`;
-            }
-
-            messages.push({ role: 'user', content: userContent });
-        }
-
-        // 2. Prepare Tools
-        let openAITools: OpenAI.Chat.ChatCompletionTool[] | undefined;
-        if (tools && tools.length > 0) {
-            openAITools = tools.map(t => ({
-                type: 'function',
-                function: {
-                    name: t.name,
-                    description: t.description,
-                    parameters: {} as Record<string, unknown>, // Placeholder
-                },
-            }));
-
-            // Fill parameters separately to avoid TS2589
-            openAITools.forEach((tool, index) => {
-                if (tools![index]) {
-                    const schema = toJSONSchema(tools![index].parameters as any);
-                    tool.function.parameters = schema as Record<string, unknown>;
-                }
-            });
-        }
-
-        // 3. Call API
-        const stream = await this.client.chat.completions.create({
-            model: this.model,
-            messages,
-            tools: openAITools,
-            tool_choice: openAITools ? 'auto' : undefined,
-            stream: true,
-            stream_options: { include_usage: true },
-            temperature: config?.temperature,
-            max_tokens: config?.max_tokens,
-            // Grok support for response_format might vary, but json_object is standard in newer openai-compatible APIs
-            response_format: output_schema ? { type: 'json_object' } : undefined,
-        });
-
-
-        let fullContent = '';
-        let toolCalls: OpenAI.Chat.ChatCompletionChunk.Choice.Delta.ToolCall[] = [];
-        let usage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
-
-        // Stream loop
-        for await (const chunk of stream) {
-            if (chunk.choices[0]?.delta?.content) {
-                const token = chunk.choices[0].delta.content;
-                fullContent += token;
-                onToken(token);
-            }
-
-            if (chunk.choices[0]?.delta?.tool_calls) {
-                // Accumulate tool calls
-                const chunkToolCalls = chunk.choices[0].delta.tool_calls;
-                for (const tc of chunkToolCalls) {
-                    const index = tc.index;
-                    if (!toolCalls[index]) {
-                        toolCalls[index] = tc;
-                    } else {
-                        // Merge
-                        if (tc.function?.name) toolCalls[index].function!.name += tc.function.name;
-                        if (tc.function?.arguments) toolCalls[index].function!.arguments += tc.function.arguments;
-                    }
-                }
-            }
-
-            if (chunk.usage) {
-                usage = {
-                    input_tokens: chunk.usage.prompt_tokens,
-                    output_tokens: chunk.usage.completion_tokens,
-                    total_tokens: chunk.usage.total_tokens
-                };
-            }
-        }
-
-        // Parse structured output if needed
-        let finalContent: string | object = fullContent;
-        if (output_schema && !toolCalls.length) {
-            try {
-                finalContent = JSON.parse(fullContent);
-                // Validate
-                output_schema.parse(finalContent);
-            } catch (e) {
-                console.warn("Failed to parse or validate JSON output", e);
-            }
-        }
-
-        // Map internal tool calls to generic format if needed
-        let genericToolCalls = undefined;
-        if (toolCalls.length > 0) {
-            genericToolCalls = toolCalls.map(tc => ({
-                name: tc.function?.name,
-                arguments: tc.function?.arguments ? JSON.parse(tc.function.arguments) : {},
-                id: tc.id
-            }));
-        }
-
-        return {
-            content: finalContent,
-            tool_calls: genericToolCalls,
-            usage,
-            meta: {
-                model: this.model,
-                latency_ms: 0
-            }
-        };
+        return super.generate(system, prompt, files, tools, config, output_schema, onToken, signal, onEvent);
     }
 }
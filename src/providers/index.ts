@@ -1,23 +1,76 @@
 
-import { LLMProvider } from '../types';
+import { LLMProvider, ProviderOptions } from '../types';
 import { OpenAIProvider } from './openai';
 import { GoogleProvider } from './google';
 import { GrokProvider } from './grok';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
 
 export { OpenAIProvider } from './openai';
 export { GoogleProvider } from './google';
 export { GrokProvider } from './grok';
+export { AnthropicProvider } from './anthropic';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export type { OpenAICompatibleOptions } from './openai-compatible';
+export { ScriptedProvider, ScriptedProvider as MockProvider } from './scripted';
+export type { ScriptedTurn, ScriptEntry, RecordedCall } from './scripted';
+export { RecordingProvider } from './recording';
+export type { RecordingProviderOptions, Cassette, CassetteInteraction, CassetteRequest } from './recording';
+export { FallbackProvider } from './fallback';
+export type { FallbackProviderOptions, NamedProvider, RouteRequest } from './fallback';
 
-export function createProvider(modelString: string): LLMProvider {
-    const [providerName, modelName] = modelString.split(':');
-
-    if (providerName === 'openai') {
-        return new OpenAIProvider(modelName);
-    } else if (providerName === 'google') {
-        return new GoogleProvider(modelName);
-    } else if (providerName === 'grok') {
-        return new GrokProvider(modelName);
-    } else {
-        throw new Error(`Unsupported provider: ${providerName}. Use format 'provider:model' (e.g., openai:gpt-4)`);
+/**
+ * Builds a provider for a model name. Receives the options passed to `createProvider`.
+ */
+export type ProviderFactory = (model: string, options?: ProviderOptions) => LLMProvider;
+
+const registry = new Map<string, ProviderFactory>();
+
+/**
+ * Registers a provider under a name so `createProvider('name:model')` can build it.
+ * Registering an existing name replaces it, which also allows overriding the built-in providers.
+ *
+ * @example
+ * ```typescript
+ * registerProvider('ollama', (model, options) => new MyOllamaProvider(model, options));
+ * const provider = createProvider('ollama:llama3:8b'); // model = 'llama3:8b'
+ * ```
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+    if (!name || name.includes(':')) {
+        throw new Error(`Invalid provider name: '${name}'. Names must be non-empty and cannot contain ':'`);
+    }
+    registry.set(name, factory);
+}
+
+/**
+ * Names of all registered providers.
+ */
+export function listProviders(): string[] {
+    return [...registry.keys()];
+}
+
+registerProvider('openai', (model, options) => new OpenAIProvider(model, options));
+registerProvider('google', (model, options) => new GoogleProvider(model, options));
+registerProvider('grok', (model, options) => new GrokProvider(model, options));
+registerProvider('anthropic', (model, options) => new AnthropicProvider(model, options));
+registerProvider('openai-compatible', (model, options) => new OpenAICompatibleProvider(model, options));
+
+/**
+ * Creates a provider from a 'provider:model' string. Only the first colon separates the
+ * provider from the model, so model IDs like 'ft:gpt-4o:org:id' stay intact.
+ */
+export function createProvider(modelString: string, options?: ProviderOptions): LLMProvider {
+    const separator = modelString.indexOf(':');
+    const providerName = separator === -1 ? modelString : modelString.slice(0, separator);
+    const modelName = separator === -1 ? '' : modelString.slice(separator + 1);
+
+    const factory = registry.get(providerName);
+    if (!factory) {
+        throw new Error(`Unsupported provider: ${providerName}. Registered providers: ${listProviders().join(', ')}. Use format 'provider:model' (e.g., openai:gpt-4)`);
+    }
+    if (!modelName) {
+        throw new Error(`Missing model name in '${modelString}'. Use format 'provider:model' (e.g., ${providerName}:model-name)`);
     }
+    return factory(modelName, options);
 }
@@ -0,0 +1,242 @@
+import OpenAI from 'openai';
+
+import { LLMProvider, AgentTool, AgentResponse, AgentMessage, ProviderOptions, ProviderEvent, TokenUsage } from '../types';
+import { z } from 'zod';
+import { readMarkdownFiles } from '../utils/file-utils';
+import { normalizeError, normalizeStreamErrors } from '../utils/error-utils';
+import { parseToolArguments } from '../utils/tool-utils';
+import { toFunctionTool, toResponseFormat, appendJsonInstruction } from '../utils/schema-utils';
+
+export interface OpenAICompatibleOptions extends ProviderOptions {
+    name?: string; // Provider name reported in errors (default: 'openai-compatible')
+    organization?: string;
+    project?: string;
+    query?: Record<string, string>; // Default query params, e.g. { 'api-version': '2024-10-21' } for Azure OpenAI
+    structured_outputs?: boolean; // Server supports the `json_schema` response format (default: false)
+    supports_tools?: boolean; // Server supports function calling (default: true)
+    supports_stream_usage?: boolean; // Server accepts `stream_options.include_usage` (default: true)
+}
+
+/**
+ * Chat-completions provider for any OpenAI-compatible server
+ * (Ollama, vLLM, LM Studio, LiteLLM, Azure OpenAI, ...).
+ *
+ * @example
+ * ```typescript
+ * const local = new OpenAICompatibleProvider('llama3.1:8b', {
+ *   baseURL: 'http://localhost:11434/v1',
+ *   supports_stream_usage: false
+ * });
+ * ```
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    protected client: OpenAI;
+    readonly model: string;
+    protected options: OpenAICompatibleOptions;
+    protected providerName: string;
+
+    constructor(model: string, options: OpenAICompatibleOptions = {}) {
+        this.model = model;
+        this.options = options;
+        this.providerName = options.name || 'openai-compatible';
+        this.client = new OpenAI({
+            // Self-hosted servers usually ignore the key, but the SDK refuses to start without one.
+            // OpenAIProvider and GrokProvider require a real key before getting here.
+            apiKey: options.apiKey || 'no-key',
+            baseURL: options.baseURL,
+            defaultHeaders: options.headers,
+            defaultQuery: options.query,
+            organization: options.organization,
+            project: options.project,
+            timeout: options.timeout,
+            maxRetries: 0, // Retries are up to the agent's retry policy, which reports them as events
+        });
+    }
+
+    /**
+     * Whether the model accepts the `json_schema` response format. Can be overridden per call
+     * with `config.structured_outputs`.
+     */
+    protected supportsStructuredOutputs(): boolean {
+        return this.options.structured_outputs ?? false;
+    }
+
+    async generate(
+        system: string | undefined,
+        prompt: string | AgentMessage[],
+        files: string[] | undefined,
+        tools: AgentTool[] | undefined,
+        config: Record<string, any> | undefined,
+        output_schema: z.ZodType<any> | undefined,
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        const supportsTools = this.options.supports_tools ?? true;
+        const supportsStreamUsage = this.options.supports_stream_usage ?? true;
+
+        // Native structured outputs (json_schema) where the model supports them, JSON mode otherwise
+        const nativeSchema = !!output_schema && (config?.structured_outputs ?? this.supportsStructuredOutputs());
+
+        // 1. Prepare messages
+        const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+        if (system) {
+            messages.push({ role: 'system', content: system });
+        }
+
+        if (Array.isArray(prompt)) {
+            // Mapping AgentMessage to OpenAI messages
+            for (const msg of prompt) {
+                if (msg.role === 'user') {
+                    messages.push({ role: 'user', content: msg.content });
+                } else if (msg.role === 'assistant' && !supportsTools && msg.tool_calls?.length) {
+                    // Without native tool support, earlier tool calls are replayed as plain text
+                    const calls = msg.tool_calls.map(tc => `${tc.name}(${typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments)})`);
+                    messages.push({ role: 'assistant', content: [msg.content, `Called tools: ${calls.join(', ')}`].filter(Boolean).join('\n\n') });
+                } else if (msg.role === 'assistant') {
+                    messages.push({
+                        role: 'assistant',
+                        content: msg.content || null,
+                        tool_calls: msg.tool_calls?.map(tc => ({
+                            id: tc.id,
+                            type: 'function',
+                            function: {
+                                name: tc.name,
+                                arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments)
+                            }
+                        }))
+                    });
+                } else if (msg.role === 'tool') {
+                    const content = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
+                    if (supportsTools) {
+                        messages.push({ role: 'tool', tool_call_id: msg.tool_call_id!, content });
+                    } else {
+                        messages.push({ role: 'user', content: `Result of tool ${msg.name || msg.tool_call_id}: ${content}` });
+                    }
+                }
+            }
+        } else {
+            // Handle files - read markdown files and inject into prompt
+            let userContent: string = prompt;
+
+            // Read and append file contents if provided
+            if (files && files.length > 0) {
+                try {
+                    const fileContents = readMarkdownFiles(files);
+                    userContent = `${fileContents}\n\n${prompt}`;
+                } catch (error: any) {
+                    throw new Error(`File reading error: ${error.message}`);
+                }
+            }
+
+            messages.push({ role: 'user', content: userContent });
+        }
+
+        // JSON mode requires the word "json" in the messages
+        if (output_schema && !nativeSchema) {
+            appendJsonInstruction(messages);
+        }
+
+        // 2. Prepare Tools
+        let openAITools: OpenAI.Chat.ChatCompletionTool[] | undefined;
+        if (tools && tools.length > 0 && supportsTools) {
+            openAITools = tools.map(toFunctionTool);
+        }
+
+        // 3. Call API
+        let stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+        try {
+            stream = await this.client.chat.completions.create({
+                model: this.model,
+                messages,
+                tools: openAITools,
+                tool_choice: openAITools ? 'auto' : undefined,
+                stream: true,
+                // Enable usage tracking in streaming (not every compatible server accepts stream_options)
+                stream_options: supportsStreamUsage ? { include_usage: true } : undefined,
+                temperature: config?.temperature,
+                max_tokens: config?.max_tokens,
+                response_format: toResponseFormat(output_schema, nativeSchema),
+            }, { signal });
+        } catch (error) {
+            throw normalizeError(error, this.providerName);
+        }
+
+
+        let fullContent = '';
+        let toolCalls: OpenAI.Chat.ChatCompletionChunk.Choice.Delta.ToolCall[] = [];
+        let usage: TokenUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+
+        // Stream loop
+        for await (const chunk of normalizeStreamErrors(stream, this.providerName)) {
+            if (chunk.choices[0]?.delta?.content) {
+                const token = chunk.choices[0].delta.content;
+                fullContent += token;
+                onToken(token);
+            }
+
+            // Not part of the OpenAI API, but DeepSeek, vLLM, Ollama and OpenRouter stream reasoning this way
+            const delta = chunk.choices[0]?.delta as { reasoning_content?: string; reasoning?: string } | undefined;
+            const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+            if (typeof reasoning === 'string' && reasoning) {
+                onEvent?.({ type: 'reasoning', text: reasoning });
+            }
+
+            if (chunk.choices[0]?.delta?.tool_calls) {
+                // Accumulate tool calls
+                const chunkToolCalls = chunk.choices[0].delta.tool_calls;
+                for (const tc of chunkToolCalls) {
+                    const index = tc.index;
+                    if (!toolCalls[index]) {
+                        toolCalls[index] = { ...tc, function: { name: tc.function?.name ?? '', arguments: tc.function?.arguments ?? '' } };
+                    } else {
+                        // Merge
+                        if (tc.function?.name) toolCalls[index].function!.name += tc.function.name;
+                        if (tc.function?.arguments) toolCalls[index].function!.arguments += tc.function.arguments;
+                    }
+                    onEvent?.({
+                        type: 'tool_call_delta',
+                        index,
+                        id: toolCalls[index].id,
+                        name: toolCalls[index].function!.name || undefined,
+                        arguments_delta: tc.function?.arguments ?? '',
+                        arguments: toolCalls[index].function!.arguments!
+                    });
+                }
+            }
+
+            // Usage arrives in the last chunk when `stream_options.include_usage` is set
+            if (chunk.usage) {
+                const reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens;
+                const cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens;
+                usage = {
+                    input_tokens: chunk.usage.prompt_tokens,
+                    output_tokens: chunk.usage.completion_tokens,
+                    total_tokens: chunk.usage.total_tokens,
+                    ...(reasoningTokens !== undefined && { reasoning_tokens: reasoningTokens }),
+                    ...(cachedTokens !== undefined && { cached_input_tokens: cachedTokens })
+                };
+            }
+        }
+
+        // Map internal tool calls to generic format if needed, or pass raw
+        let genericToolCalls = undefined;
+        if (toolCalls.length > 0) {
+            genericToolCalls = toolCalls.map(tc => ({
+                name: tc.function?.name,
+                arguments: parseToolArguments(tc.function?.arguments),
+                id: tc.id
+            }));
+        }
+
+        return {
+            content: fullContent, // Structured output is parsed and validated by the Agent
+            tool_calls: genericToolCalls,
+            usage,
+            meta: {
+                model: this.model,
+                latency_ms: 0 // Set by Agent class
+            }
+        };
+    }
+}
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { LLMProvider, AgentTool, AgentResponse, AgentMessage, ProviderEvent } from '../types';
+import { z } from 'zod';
+import { toProviderJSONSchema } from '../utils/schema-utils';
+import { sleep } from '../utils/retry-utils';
+
+const CASSETTE_VERSION = 1;
+
+/**
+ * Provider-independent form of a `generate()` call. Its hash keys the cassette.
+ */
+export interface CassetteRequest {
+    system?: string;
+    messages: string | AgentMessage[];
+    files?: string[];
+    tools?: { name: string; description: string; parameters: Record<string, unknown> }[];
+    config?: Record<string, any>;
+    output_schema?: Record<string, unknown>;
+}
+
+export interface CassetteInteraction {
+    key: string;
+    request: CassetteRequest;
+    tokens: ({ token: string; offset_ms: number } | { event: ProviderEvent; offset_ms: number })[]; // Streamed output in order, offset from the start of the call
+    response: AgentResponse;
+}
+
+export interface Cassette {
+    version: number;
+    interactions: CassetteInteraction[];
+}
+
+export interface RecordingProviderOptions {
+    cassette: string; // Path of the JSON cassette file
+    mode?: 'record' | 'replay'; // 'record' starts a fresh cassette (default: 'replay')
+    on_miss?: 'fail' | 'passthrough' | 'record'; // Replay behavior for unknown requests (default: 'fail')
+    replay_timing?: boolean; // Reproduce the recorded delays between tokens (default: false)
+}
+
+/**
+ * Serializes with sorted object keys so equivalent requests hash identically.
+ */
+function stableStringify(value: any): string {
+    if (value === undefined) return 'null';
+    if (value === null || typeof value !== 'object') return JSON.stringify(value);
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+}
+
+/**
+ * Wraps any LLMProvider and records each `generate()` exchange to a JSON cassette,
+ * or replays previously recorded exchanges offline, keyed by a hash of the request.
+ *
+ * @example
+ * ```typescript
+ * // Capture a real session once...
+ * const provider = new RecordingProvider(new openAI('gpt-4o'), { cassette: 'fixtures/weather.json', mode: 'record' });
+ * // ...then replay it in tests without network access
+ * const replay = new RecordingProvider(undefined, { cassette: 'fixtures/weather.json' });
+ * ```
+ */
+export class RecordingProvider implements LLMProvider {
+    private inner: LLMProvider | undefined;
+    private options: Required<RecordingProviderOptions>;
+    private cassette: Cassette;
+    private served = new Map<string, number>(); // Replay cursor per request key
+
+    constructor(inner: LLMProvider | undefined, options: RecordingProviderOptions) {
+        this.inner = inner;
+        this.options = { mode: 'replay', on_miss: 'fail', replay_timing: false, ...options };
+
+        if (this.options.mode === 'record') {
+            this.cassette = { version: CASSETTE_VERSION, interactions: [] };
+        } else {
+            this.cassette = this.load();
+        }
+
+        if (!inner && (this.options.mode === 'record' || this.options.on_miss !== 'fail')) {
+            throw new Error(`RecordingProvider: a provider to wrap is required in '${this.options.mode}' mode with on_miss '${this.options.on_miss}'`);
+        }
+    }
+
+    get model(): string | undefined {
+        return this.inner?.model;
+    }
+
+    /**
+     * Hash used to match a request against recorded interactions.
+     */
+    static requestKey(request: CassetteRequest): string {
+        return createHash('sha256').update(stableStringify(request)).digest('hex');
+    }
+
+    async generate(
+        system: string | undefined,
+        prompt: string | AgentMessage[],
+        files: string[] | undefined,
+        tools: AgentTool[] | undefined,
+        config: Record<string, any> | undefined,
+        output_schema: z.ZodType<any> | undefined,
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        const request: CassetteRequest = {
+            system,
+            messages: prompt,
+            files,
+            tools: tools?.map(t => ({ name: t.name, description: t.description, parameters: toProviderJSONSchema(t.parameters).schema })),
+            config,
+            output_schema: output_schema ? toProviderJSONSchema(output_schema).schema : undefined
+        };
+        // Round-trip through JSON so the recorded request matches what is read back from disk
+        const normalized: CassetteRequest = JSON.parse(JSON.stringify(request));
+        const key = RecordingProvider.requestKey(normalized);
+
+        if (this.options.mode === 'replay') {
+            const recorded = this.cassette.interactions.filter(i => i.key === key);
+            if (recorded.length > 0) {
+                // Identical requests are served in recording order; the last one repeats
+                const cursor = this.served.get(key) ?? 0;
+                this.served.set(key, cursor + 1);
+                return this.replay(recorded[Math.min(cursor, recorded.length - 1)], onToken, signal, onEvent);
+            }
+
+            if (this.options.on_miss === 'fail') {
+                throw new Error(`RecordingProvider: no recorded interaction for request ${key.slice(0, 12)} in ${this.options.cassette}`);
+            }
+            if (this.options.on_miss === 'passthrough') {
+                return this.inner!.generate(system, prompt, files, tools, config, output_schema, onToken, signal, onEvent);
+            }
+        }
+
+        return this.record(key, normalized, [system, prompt, files, tools, config, output_schema], onToken, signal, onEvent);
+    }
+
+    private async record(
+        key: string,
+        request: CassetteRequest,
+        args: [string | undefined, string | AgentMessage[], string[] | undefined, AgentTool[] | undefined, Record<string, any> | undefined, z.ZodType<any> | undefined],
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        const startTime = Date.now();
+        const tokens: CassetteInteraction['tokens'] = [];
+
+        const response = await this.inner!.generate(...args, (token) => {
+            tokens.push({ token, offset_ms: Date.now() - startTime });
+            onToken(token);
+        }, signal, (event) => {
+            tokens.push({ event, offset_ms: Date.now() - startTime });
+            onEvent?.(event);
+        });
+
+        this.cassette.interactions.push({
+            key,
+            request,
+            tokens,
+            response: JSON.parse(JSON.stringify(response))
+        });
+        this.save();
+        return response;
+    }
+
+    private async replay(
+        interaction: CassetteInteraction,
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        let elapsed = 0;
+        for (const entry of interaction.tokens) {
+            if (this.options.replay_timing && entry.offset_ms > elapsed) {
+                await sleep(entry.offset_ms - elapsed, signal);
+                elapsed = entry.offset_ms;
+            }
+            if ('token' in entry) {
+                onToken(entry.token);
+            } else {
+                onEvent?.(entry.event);
+            }
+        }
+        // Hand out a copy, the agent mutates responses (latency, content)
+        return JSON.parse(JSON.stringify(interaction.response));
+    }
+
+    private load(): Cassette {
+        if (!fs.existsSync(this.options.cassette)) {
+            return { version: CASSETTE_VERSION, interactions: [] };
+        }
+        try {
+            const cassette = JSON.parse(fs.readFileSync(this.options.cassette, 'utf-8'));
+            if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+                throw new Error(`unsupported cassette version ${cassette.version}`);
+            }
+            return cassette;
+        } catch (error: any) {
+            throw new Error(`Failed to load cassette ${this.options.cassette}: ${error.message}`);
+        }
+    }
+
+    private save(): void {
+        const dir = path.dirname(this.options.cassette);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(this.options.cassette, JSON.stringify(this.cassette, null, 2));
+    }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { ScriptedProvider } from './scripted';
+import { ProviderEvent } from '../types';
+
+describe('ScriptedProvider', () => {
+    it('streams the text chunks and records the call', async () => {
+        const provider = new ScriptedProvider([{ text: ['Hel', 'lo'], usage: { input_tokens: 4, output_tokens: 2 } }]);
+        const tokens: string[] = [];
+
+        const response = await provider.generate('Be brief', [{ role: 'user', content: 'Hi' }], undefined, undefined, { temperature: 0 }, undefined, token => tokens.push(token));
+
+        expect(tokens).toEqual(['Hel', 'lo']);
+        expect(response.content).toBe('Hello');
+        expect(response.usage).toEqual({ input_tokens: 4, output_tokens: 2, total_tokens: 6 });
+        expect(provider.calls).toEqual([
+            expect.objectContaining({ system: 'Be brief', messages: [{ role: 'user', content: 'Hi' }], config: { temperature: 0 } })
+        ]);
+        expect(provider.remaining).toBe(0);
+    });
+
+    it('returns tool calls with generated ids and reports them as deltas', async () => {
+        const provider = new ScriptedProvider([{ tool_calls: [{ name: 'lookup', arguments: { order: 1 } }] }]);
+        const events: ProviderEvent[] = [];
+
+        const response = await provider.generate(undefined, 'Hi', undefined, undefined, undefined, undefined, () => { }, undefined, event => events.push(event));
+
+        expect(response.tool_calls).toEqual([{ id: 'call_1_1', name: 'lookup', arguments: { order: 1 } }]);
+        expect(events).toEqual([expect.objectContaining({ type: 'tool_call_delta', id: 'call_1_1', arguments: '{"order":1}' })]);
+    });
+
+    it('throws the scripted error after streaming the text', async () => {
+        const provider = new ScriptedProvider([{ text: 'partial', error: new Error('boom') }]);
+        const tokens: string[] = [];
+
+        await expect(provider.generate(undefined, 'Hi', undefined, undefined, undefined, undefined, token => tokens.push(token))).rejects.toThrow('boom');
+        expect(tokens).toEqual(['partial']);
+    });
+
+    it('fails when the script runs out', async () => {
+        const provider = new ScriptedProvider();
+
+        await expect(provider.generate(undefined, 'Hi', undefined, undefined, undefined, undefined, () => { })).rejects.toThrow('no scripted turn for call #1');
+    });
+
+    it('stops waiting when the signal is aborted', async () => {
+        const provider = new ScriptedProvider([{ text: 'late', delay_ms: 1000 }]);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 5);
+
+        await expect(provider.generate(undefined, 'Hi', undefined, undefined, undefined, undefined, () => { }, controller.signal)).rejects.toThrow();
+    });
+});
@@ -0,0 +1,154 @@
+import { LLMProvider, AgentTool, AgentResponse, AgentMessage, ProviderEvent } from '../types';
+import { z } from 'zod';
+import { sleep } from '../utils/retry-utils';
+
+/**
+ * One scripted provider turn, served in response to a single `generate()` call.
+ */
+export interface ScriptedTurn {
+    reasoning?: string | string[]; // Streamed as `reasoning` events before the text
+    text?: string | string[]; // Streamed through onToken, one call per chunk
+    content?: string | object; // Final content (defaults to the joined text)
+    tool_calls?: { id?: string; name: string; arguments: any }[];
+    usage?: Partial<AgentResponse['usage']>;
+    meta?: Record<string, any>;
+    error?: unknown; // Thrown after the text chunks have been streamed
+    delay_ms?: number; // Waited before each chunk (and before responding)
+}
+
+/**
+ * Arguments of a `generate()` call, recorded for assertions.
+ */
+export interface RecordedCall {
+    system: string | undefined;
+    messages: string | AgentMessage[];
+    files: string[] | undefined;
+    tools: AgentTool[] | undefined;
+    config: Record<string, any> | undefined;
+    output_schema: z.ZodType<any> | undefined;
+}
+
+export type ScriptEntry = ScriptedTurn | ((call: RecordedCall, index: number) => ScriptedTurn | Promise<ScriptedTurn>);
+
+/**
+ * Offline LLMProvider that replays a script of turns instead of calling an API.
+ * Useful for unit-testing tool loops, `chain()` and `bridgeToSSE` deterministically.
+ *
+ * @example
+ * ```typescript
+ * const provider = new ScriptedProvider([
+ *   { tool_calls: [{ name: 'get_weather', arguments: { city: 'Paris' } }] },
+ *   { text: ['It is ', 'sunny.'] }
+ * ]);
+ * const agent = new Agent({ name: 'test', provider, tools: [weatherTool], max_tool_iterations: 2 });
+ * await agent.run('Weather in Paris?');
+ * expect(provider.calls[1].messages).toContainEqual(expect.objectContaining({ role: 'tool' }));
+ * ```
+ */
+export class ScriptedProvider implements LLMProvider {
+    readonly calls: RecordedCall[] = [];
+    private script: ScriptEntry[];
+    readonly model: string;
+
+    constructor(script: ScriptEntry[] = [], model: string = 'scripted') {
+        this.script = [...script];
+        this.model = model;
+    }
+
+    /**
+     * Appends turns to the end of the script.
+     */
+    push(...entries: ScriptEntry[]): this {
+        this.script.push(...entries);
+        return this;
+    }
+
+    /**
+     * Number of scripted turns not yet consumed.
+     */
+    get remaining(): number {
+        return this.script.length - this.calls.length;
+    }
+
+    async generate(
+        system: string | undefined,
+        prompt: string | AgentMessage[],
+        files: string[] | undefined,
+        tools: AgentTool[] | undefined,
+        config: Record<string, any> | undefined,
+        output_schema: z.ZodType<any> | undefined,
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
+    ): Promise<AgentResponse> {
+        const index = this.calls.length;
+        const call: RecordedCall = {
+            system,
+            // Snapshot the history, the agent keeps mutating its array
+            messages: Array.isArray(prompt) ? prompt.map(m => ({ ...m })) : prompt,
+            files,
+            tools,
+            config,
+            output_schema
+        };
+        this.calls.push(call);
+
+        const entry = this.script[index];
+        if (!entry) {
+            throw new Error(`ScriptedProvider: no scripted turn for call #${index + 1} (script has ${this.script.length})`);
+        }
+        const turn = typeof entry === 'function' ? await entry(call, index) : entry;
+
+        const reasoning = turn.reasoning === undefined ? [] : Array.isArray(turn.reasoning) ? turn.reasoning : [turn.reasoning];
+        for (const text of reasoning) {
+            if (turn.delay_ms) {
+                await sleep(turn.delay_ms, signal);
+            }
+            onEvent?.({ type: 'reasoning', text });
+        }
+
+        const chunks = turn.text === undefined ? [] : Array.isArray(turn.text) ? turn.text : [turn.text];
+        for (const chunk of chunks) {
+            if (turn.delay_ms) {
+                await sleep(turn.delay_ms, signal);
+            }
+            onToken(chunk);
+        }
+        // Scripted tool calls arrive in one piece, like Gemini function calls
+        turn.tool_calls?.forEach((tc, i) => {
+            const args = typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments ?? {});
+            onEvent?.({ type: 'tool_call_delta', index: i, id: tc.id ?? `call_${index + 1}_${i + 1}`, name: tc.name, arguments_delta: args, arguments: args });
+        });
+        if (turn.delay_ms) {
+            await sleep(turn.delay_ms, signal);
+        }
+
+        if (turn.error !== undefined) {
+            throw turn.error;
+        }
+
+        const input_tokens = turn.usage?.input_tokens ?? 0;
+        const output_tokens = turn.usage?.output_tokens ?? 0;
+
+        return {
+            content: turn.content ?? chunks.join(''),
+            tool_calls: turn.tool_calls?.map((tc, i) => ({
+                id: tc.id ?? `call_${index + 1}_${i + 1}`,
+                name: tc.name,
+                arguments: tc.arguments
+            })),
+            usage: {
+                input_tokens,
+                output_tokens,
+                total_tokens: turn.usage?.total_tokens ?? input_tokens + output_tokens,
+                ...(turn.usage?.reasoning_tokens !== undefined && { reasoning_tokens: turn.usage.reasoning_tokens }),
+                ...(turn.usage?.cached_input_tokens !== undefined && { cached_input_tokens: turn.usage.cached_input_tokens })
+            },
+            meta: {
+                model: this.model,
+                latency_ms: 0,
+                ...turn.meta
+            }
+        };
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { Agent } from './agent';
+import { ScriptedProvider } from './providers/scripted';
+import { AgentMessage, AgentTool } from './types';
+
+const lookup: AgentTool = {
+    name: 'lookup',
+    description: 'Looks up an order',
+    parameters: z.object({ order: z.number() }),
+    execute: async ({ order }) => ({ order, status: 'shipped' })
+};
+
+describe('Session', () => {
+    it('replays the persisted turns on the next send', async () => {
+        const provider = new ScriptedProvider([{ text: 'Paris' }, { text: 'The Eiffel Tower' }]);
+        const session = new Agent({ name: 'a', provider }).session('s1');
+
+        await session.send('Capital of France?');
+        await session.send('Famous tower?');
+
+        expect(provider.calls[1].messages).toEqual([
+            { role: 'user', content: 'Capital of France?' },
+            expect.objectContaining({ role: 'assistant', content: 'Paris' }),
+            { role: 'user', content: 'Famous tower?' }
+        ]);
+    });
+
+    it('does not persist an empty answer when the run stops after a tool-call turn', async () => {
+        const provider = new ScriptedProvider([
+            { tool_calls: [{ id: 't1', name: 'lookup', arguments: { order: 1 } }] },
+            { tool_calls: [{ id: 't2', name: 'lookup', arguments: { order: 2 } }] },
+            { text: 'Both shipped' }
+        ]);
+        const session = new Agent({ name: 'a', provider, tools: [lookup], max_tool_iterations: 2 }).session('s1');
+
+        await session.send('Where are orders 1 and 2?');
+        await session.send('Thanks');
+
+        const replayed = provider.calls[2].messages as AgentMessage[];
+        const emptyAssistant = replayed.filter(m => m.role === 'assistant' && !m.content && !m.tool_calls?.length);
+        expect(emptyAssistant).toEqual([]);
+        expect(replayed.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant', 'tool', 'user']);
+    });
+});
@@ -0,0 +1,81 @@
+import { Agent } from './agent';
+import { AgentMessage, AgentResponse, ApprovalDecisions, MemoryStore, RunOptions, SuspendedRun } from './types';
+
+/**
+ * A stateful conversation with an agent. Each `send()` loads the prior messages from the
+ * memory store, runs the agent, and appends every message of the turn (user message,
+ * assistant tool calls, tool results and final answer) in a single `append()`.
+ *
+ * @example
+ * ```typescript
+ * const session = agent.session('user-42');
+ * await session.send('What is the capital of France?');
+ * const result = await session.send('And what is its famous tower?');
+ * ```
+ */
+export class Session<TOutput = string | object> {
+    readonly id: string;
+    private agent: Agent<TOutput>;
+    private store: MemoryStore;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(agent: Agent<TOutput>, id: string, store: MemoryStore) {
+        this.agent = agent;
+        this.id = id;
+        this.store = store;
+    }
+
+    /**
+     * Sends a user message. Concurrent calls on the same session are processed one after another.
+     * If the run fails, nothing is appended to the history.
+     */
+    send(text: string, options: Omit<RunOptions, 'history' | 'onMessage'> = {}): Promise<AgentResponse<TOutput>> {
+        return this.enqueue(async () => {
+            const history = (await this.store.load(this.id)).map(toProviderMessage);
+            return this.collect(onMessage => this.agent.run(text, { ...options, history, onMessage }));
+        });
+    }
+
+    /**
+     * Continues a turn that paused for tool approval, appending the tool results and what
+     * follows them. Resume (or reject) the pending calls before sending the next message:
+     * the persisted history ends with tool calls that have no results yet.
+     */
+    resume(state: SuspendedRun, decisions: ApprovalDecisions, options: Omit<RunOptions, 'history' | 'onMessage'> = {}): Promise<AgentResponse<TOutput>> {
+        return this.enqueue(() => this.collect(onMessage => this.agent.resume(state, decisions, { ...options, onMessage })));
+    }
+
+    /**
+     * The persisted conversation so far.
+     */
+    history(): Promise<AgentMessage[]> {
+        return this.store.load(this.id);
+    }
+
+    clear(): Promise<void> {
+        return this.store.clear(this.id);
+    }
+
+    private enqueue(turn: () => Promise<AgentResponse<TOutput>>): Promise<AgentResponse<TOutput>> {
+        const next = this.queue.then(turn);
+        this.queue = next.catch(() => undefined);
+        return next;
+    }
+
+    private async collect(run: (onMessage: (message: AgentMessage) => void) => Promise<AgentResponse<TOutput>>): Promise<AgentResponse<TOutput>> {
+        const turnMessages: AgentMessage[] = [];
+        const response = await run((message) => turnMessages.push(message));
+        await this.store.append(this.id, turnMessages);
+        return response;
+    }
+}
+
+/**
+ * Final answers may hold structured output or a tool result; providers expect text.
+ */
+function toProviderMessage(message: AgentMessage): AgentMessage {
+    if (message.role === 'assistant' && message.content && typeof message.content === 'object') {
+        return { ...message, content: JSON.stringify(message.content) };
+    }
+    return message;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import { Agent } from './agent';
+import { bridgeToSSE, bridgeChainToSSE } from './sse';
+import { runChain } from './chain';
+import { ScriptedProvider } from './providers/scripted';
+import { AgentAbortError, AgentPulseError } from './errors';
+
+class MockResponse extends EventEmitter {
+    chunks: string[] = [];
+    writableEnded = false;
+    destroyed = false;
+
+    write(chunk: string): void {
+        this.chunks.push(chunk);
+    }
+
+    end(): void {
+        this.writableEnded = true;
+    }
+
+    events(): { event: string; data: any }[] {
+        return this.chunks.map(chunk => {
+            const [, event, data] = chunk.match(/^event: (.*)\ndata: (.*)\n\n$/)!;
+            return { event, data: JSON.parse(data) };
+        });
+    }
+}
+
+describe('bridgeToSSE', () => {
+    it('writes the tokens and the response, then ends the stream', async () => {
+        const agent = new Agent({ name: 'a', provider: new ScriptedProvider([{ text: ['Hel', 'lo'] }]) });
+        const res = new MockResponse();
+
+        const signal = bridgeToSSE(res, agent);
+        await agent.run('Hi', { signal });
+
+        expect(res.events().map(e => e.event)).toEqual(['token', 'token', 'response']);
+        expect(res.events()[2].data.content).toBe('Hello');
+        expect(res.writableEnded).toBe(true);
+    });
+
+    it('writes the error event when the run fails', async () => {
+        const failure = new AgentPulseError('auth_error', 'Invalid API key', { kind: 'auth' });
+        const agent = new Agent({ name: 'a', provider: new ScriptedProvider([{ error: failure }]) });
+        const res = new MockResponse();
+
+        const signal = bridgeToSSE(res, agent);
+        await expect(agent.run('Hi', { signal })).rejects.toThrow('Invalid API key');
+
+        expect(res.events()).toEqual([{ event: 'error', data: expect.objectContaining({ error_key: 'auth_error' }) }]);
+        expect(res.writableEnded).toBe(true);
+    });
+
+    it('cancels only its own run when the client disconnects', async () => {
+        const agent = new Agent({
+            name: 'a',
+            provider: new ScriptedProvider([{ text: ['a', 'b'], delay_ms: 20 }, { text: ['c', 'd'], delay_ms: 20 }])
+        });
+        const res = new MockResponse();
+
+        const signal = bridgeToSSE(res, agent);
+        const mine = agent.run('Hi', { signal });
+        const other = agent.run('Hello');
+        setTimeout(() => res.emit('close'), 5);
+
+        await expect(mine).rejects.toBeInstanceOf(AgentAbortError);
+        await expect(other).resolves.toMatchObject({ content: 'cd' });
+    });
+});
+
+describe('bridgeChainToSSE', () => {
+    it('writes the step events and ends with chain_end', async () => {
+        const agent = new Agent({ name: 'writer', provider: new ScriptedProvider([{ text: ['Hel', 'lo'] }]) });
+        const res = new MockResponse();
+        const run = runChain([{ agent, input: 'Hi' }]);
+
+        bridgeChainToSSE(res, run);
+        await run.result;
+
+        expect(res.events().map(e => e.event)).toEqual(['step_start', 'token', 'token', 'step_end', 'chain_end']);
+        expect(res.events()[1].data).toEqual({ index: 0, agent: 'writer', payload: 'Hel' });
+        expect(res.writableEnded).toBe(true);
+    });
+
+    it('aborts the chain when the client disconnects', async () => {
+        const agent = new Agent({ name: 'slow', provider: new ScriptedProvider([{ text: 'late', delay_ms: 50 }]) });
+        const res = new MockResponse();
+        const run = runChain([{ agent, input: 'Hi' }]);
+
+        bridgeChainToSSE(res, run);
+        setTimeout(() => res.emit('close'), 5);
+
+        await expect(run.result).rejects.toBeInstanceOf(AgentAbortError);
+    });
+});
@@ -1,5 +1,6 @@
 
 import { Agent } from './agent';
+import { ChainRun } from './chain';
 
 /**
  * Sets up standard Server-Sent Events (SSE) headers on the response object.
@@ -21,27 +22,46 @@ export function setupSSEHeaders(res: any) {
 /**
  * Bridges Agent events to a Server-Sent Events (SSE) stream.
  * Automatically attaches listeners to the agent and writes formatted SSE events to the response.
+ * The returned signal is aborted when the client disconnects before the run finishes;
+ * pass it to `agent.run()` so the disconnect cancels that run and no other run of the agent.
  * 
  * @param res The response object (Node.js or Express)
  * @param agent The Agent instance to listen to
+ * @returns A signal for the run's options
  */
-export function bridgeToSSE(res: any, agent: Agent) {
-    const sendEvent = (event: string, data: any) => {
-        // We use JSON.stringify to safely serialize the data (strings or objects)
-        // This handles newlines and special characters correctly in the SSE format.
-        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
-
-        // Optional: Flush if method exists (some environments need explicit flush)
-        if (typeof res.flush === 'function') {
-            res.flush();
-        }
-    };
+export function bridgeToSSE(res: any, agent: Agent): AbortSignal {
+    const controller = new AbortController();
+    const sendEvent = (event: string, data: any) => writeSSEEvent(res, event, data);
 
     // Listen to 'token' events for streaming
     const tokenListener = (token: string) => {
         sendEvent('token', token);
     };
 
+    // A retried provider call discards the tokens streamed by the failed attempt
+    const tokenResetListener = (payload: any) => {
+        sendEvent('token_reset', payload);
+    };
+
+    // Thinking text and partial tool arguments, so UIs can show progress before the answer starts
+    const reasoningListener = (text: string) => {
+        sendEvent('reasoning', text);
+    };
+
+    const toolCallDeltaListener = (delta: any) => {
+        sendEvent('tool_call_delta', delta);
+    };
+
+    // Tokens and tool activity of sub-agents running as tools, tagged with their name
+    const subAgentListener = (payload: any) => {
+        sendEvent('subagent', payload);
+    };
+
+    // Tool calls waiting for a human decision; the suspended state follows in the response
+    const approvalRequiredListener = (payload: any) => {
+        sendEvent('approval_required', { pending: payload.pending });
+    };
+
     // Listen to 'response' event for final completion
     const responseListener = (response: any) => {
         sendEvent('response', response);
@@ -56,19 +76,129 @@ export function bridgeToSSE(res: any, agent: Agent) {
         res.end();
     };
 
+    // Listen to 'aborted' event (run cancelled by the server or by a client disconnect)
+    const abortedListener = (payload: any) => {
+        cleanup();
+        if (!res.writableEnded && !res.destroyed) {
+            sendEvent('aborted', payload);
+            res.end();
+        }
+    };
+
+    // Stop the provider stream and pending tools once nobody is listening anymore
+    const closeListener = () => {
+        const finished = done;
+        cleanup();
+        if (!finished) {
+            controller.abort('client_disconnected');
+        }
+    };
+
     // Cleanup listeners to avoid memory leaks if the agent is reused (though usually one-off)
+    let done = false;
     const cleanup = () => {
+        done = true;
+        agent.off('aborted', abortedListener);
         agent.off('token', tokenListener);
+        agent.off('token_reset', tokenResetListener);
+        agent.off('reasoning', reasoningListener);
+        agent.off('tool_call_delta', toolCallDeltaListener);
+        agent.off('approval_required', approvalRequiredListener);
+        agent.off('subagent', subAgentListener);
         agent.off('response', responseListener);
         agent.off('error', errorListener);
     };
 
     agent.on('token', tokenListener);
+    agent.on('token_reset', tokenResetListener);
+    agent.on('reasoning', reasoningListener);
+    agent.on('tool_call_delta', toolCallDeltaListener);
+    agent.on('approval_required', approvalRequiredListener);
+    agent.on('subagent', subAgentListener);
     agent.on('response', responseListener);
     agent.on('error', errorListener);
+    agent.on('aborted', abortedListener);
 
     // Handle client disconnect if possible
     if (res.on) {
-        res.on('close', cleanup);
+        res.on('close', closeListener);
+    }
+    return controller.signal;
+}
+
+/**
+ * Bridges the events of a running chain to a Server-Sent Events (SSE) stream: `step_start`,
+ * `step_end`, the step agents' `token`, `token_reset`, `tool_start` and `tool_end` events
+ * (tagged with the step `index` and `agent` name), then `chain_end`, `error` or `aborted`.
+ * If the client disconnects before the chain finishes, the chain is aborted.
+ *
+ * @param res The response object (Node.js or Express)
+ * @param chainRun The run returned by `runChain()`
+ *
+ * @example
+ * ```typescript
+ * app.post('/pipeline', (req, res) => {
+ *   setupSSEHeaders(res);
+ *   bridgeChainToSSE(res, runChain(steps));
+ * });
+ * ```
+ */
+export function bridgeChainToSSE(res: any, chainRun: ChainRun) {
+    const forwarded = ['step_start', 'step_end', 'token', 'token_reset', 'tool_start', 'tool_end'];
+    const listeners = forwarded.map(event => {
+        const listener = (payload: any) => writeSSEEvent(res, event, payload);
+        chainRun.on(event, listener);
+        return { event, listener };
+    });
+
+    // The stream ends with exactly one of these
+    const finish = (event: string) => (payload: any) => {
+        cleanup();
+        if (!res.writableEnded && !res.destroyed) {
+            writeSSEEvent(res, event, payload);
+            res.end();
+        }
+    };
+    const chainEndListener = finish('chain_end');
+    const errorListener = finish('error');
+    const abortedListener = finish('aborted');
+
+    // Stop the running step once nobody is listening anymore
+    const closeListener = () => {
+        const finished = done;
+        cleanup();
+        if (!finished) {
+            chainRun.abort('client_disconnected');
+        }
+    };
+
+    let done = false;
+    const cleanup = () => {
+        done = true;
+        for (const { event, listener } of listeners) {
+            chainRun.off(event, listener);
+        }
+        chainRun.off('chain_end', chainEndListener);
+        chainRun.off('error', errorListener);
+        chainRun.off('aborted', abortedListener);
+    };
+
+    chainRun.on('chain_end', chainEndListener);
+    chainRun.on('error', errorListener);
+    chainRun.on('aborted', abortedListener);
+
+    if (res.on) {
+        res.on('close', closeListener);
+    }
+}
+
+function writeSSEEvent(res: any, event: string, data: any) {
+    // We use JSON.stringify to safely serialize the data (strings or objects)
+    // This handles newlines and special characters correctly in the SSE format.
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    // Optional: Flush if method exists (some environments need explicit flush)
+    if (typeof res.flush === 'function') {
+        res.flush();
     }
 }
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Agent } from './agent';
+import { ScriptedProvider } from './providers/scripted';
+import { AgentEvent } from './types';
+
+async function collect(events: AsyncIterable<AgentEvent>): Promise<AgentEvent[]> {
+    const collected: AgentEvent[] = [];
+    for await (const event of events) {
+        collected.push(event);
+    }
+    return collected;
+}
+
+function finalResponse(events: AgentEvent[]) {
+    const last = events[events.length - 1];
+    if (last.type !== 'response') throw new Error(`Stream ended with ${last.type}`);
+    return last.payload;
+}
+
+describe('agent.stream', () => {
+    it('yields the run events in order and ends with the response', async () => {
+        const agent = new Agent({ name: 'a', provider: new ScriptedProvider([{ text: ['Hel', 'lo'] }]) });
+
+        const events = await collect(agent.stream('Hi'));
+
+        expect(events.map(event => event.type)).toEqual(['start', 'token', 'token', 'response']);
+        expect(finalResponse(events).content).toBe('Hello');
+    });
+
+    it('keeps concurrent streams on one agent apart', async () => {
+        const provider = new ScriptedProvider([
+            { text: ['A1', 'A2'], delay_ms: 5 },
+            { text: ['B1', 'B2'], delay_ms: 5 }
+        ]);
+        const agent = new Agent({ name: 'a', provider });
+
+        const [a, b] = await Promise.all([collect(agent.stream('first')), collect(agent.stream('second'))]);
+
+        const tokens = (events: AgentEvent[]) => events.filter(event => event.type === 'token').map(event => event.payload);
+        expect(tokens(a)).toEqual(['A1', 'A2']);
+        expect(tokens(b)).toEqual(['B1', 'B2']);
+        expect(a.filter(event => event.type === 'response')).toHaveLength(1);
+        expect(finalResponse(a).content).toBe('A1A2');
+        expect(finalResponse(b).content).toBe('B1B2');
+    });
+
+    it('aborts the run when the loop is left early', async () => {
+        const agent = new Agent({ name: 'a', provider: new ScriptedProvider([{ text: ['a', 'b', 'c'], delay_ms: 5 }]) });
+        const aborted: unknown[] = [];
+        agent.on('aborted', payload => aborted.push(payload));
+
+        for await (const event of agent.stream('Hi')) {
+            if (event.type === 'token') break;
+        }
+
+        expect(aborted).toHaveLength(1);
+    });
+});
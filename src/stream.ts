@@ -0,0 +1,77 @@
+import type { Agent } from './agent';
+import { AgentEvent, AgentMessage, RunOptions } from './types';
+
+// Queued events above which consecutive tokens are merged. The run itself is not slowed down
+// by a slow consumer, so this only keeps the queue from growing by one entry per token.
+const TOKEN_HIGH_WATER_MARK = 64;
+
+/**
+ * Runs the agent and yields its events in order. The run starts on the first `next()`,
+ * and leaving the loop early (`break`, `return` or a thrown error) aborts it.
+ * The last event is `response`; a failed run yields its `error`/`aborted` event and then throws.
+ */
+export async function* streamRun<TOutput>(
+    agent: Agent<TOutput>,
+    inputContext: string | AgentMessage[],
+    options: RunOptions = {}
+): AsyncGenerator<AgentEvent<TOutput>, void, undefined> {
+    const controller = new AbortController();
+    const externalSignal = options.signal;
+    const onExternalAbort = () => controller.abort(externalSignal?.reason);
+    if (externalSignal?.aborted) {
+        controller.abort(externalSignal.reason);
+    } else {
+        externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    const queue: AgentEvent<TOutput>[] = [];
+    let wake: (() => void) | null = null;
+    const push = (event: AgentEvent<TOutput>) => {
+        const last = queue[queue.length - 1];
+        if (event.type === 'token' && last?.type === 'token' && queue.length >= TOKEN_HIGH_WATER_MARK) {
+            last.payload += event.payload;
+        } else {
+            queue.push(event);
+        }
+        wake?.();
+    };
+
+    let finished = false;
+    let failure: unknown = null;
+    // onEvent sees this run only; listeners on the agent would also see its other runs
+    const onEvent = (event: AgentEvent) => {
+        options.onEvent?.(event);
+        // A copy, merging tokens must not change the event the caller's hook received
+        push({ ...event } as AgentEvent<TOutput>);
+    };
+    const run = agent.run(inputContext, { ...options, signal: controller.signal, onEvent })
+        .then(
+            () => undefined,
+            (error) => { failure = error; }
+        )
+        .finally(() => {
+            finished = true;
+            wake?.();
+        });
+
+    try {
+        while (true) {
+            if (queue.length > 0) {
+                yield queue.shift()!;
+                continue;
+            }
+            if (finished) break;
+            await new Promise<void>(resolve => { wake = resolve; });
+            wake = null;
+        }
+        if (failure) {
+            throw failure;
+        }
+    } finally {
+        if (!finished) {
+            controller.abort('stream_closed');
+            await run;
+        }
+        externalSignal?.removeEventListener('abort', onExternalAbort);
+    }
+}
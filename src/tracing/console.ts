@@ -0,0 +1,71 @@
+import { SpanData, SpanExporter } from '../types';
+
+export interface ConsoleExporterOptions {
+    write?: (line: string) => void; // Output sink (default: console.log)
+}
+
+/**
+ * Prints each trace as an indented tree once its outermost span ends, e.g.
+ *
+ * ```
+ * • run researcher 2310ms tokens=3120/412 $0.0119
+ *   • generate #1 gpt-4o 1204ms tokens=1480/96
+ *   • tool web_search 731ms
+ *   • generate #2 gpt-4o 371ms tokens=1640/316
+ * ```
+ */
+export class ConsoleExporter implements SpanExporter {
+    private write: (line: string) => void;
+    private open = new Set<string>();
+    private finished = new Map<string, SpanData[]>(); // Ended spans by parent span ID
+
+    constructor(options: ConsoleExporterOptions = {}) {
+        this.write = options.write || ((line) => console.log(line));
+    }
+
+    onStart(span: { span_id: string }): void {
+        this.open.add(span.span_id);
+    }
+
+    onEnd(span: SpanData): void {
+        this.open.delete(span.span_id);
+        if (span.parent_span_id && this.open.has(span.parent_span_id)) {
+            const siblings = this.finished.get(span.parent_span_id) || [];
+            siblings.push(span);
+            this.finished.set(span.parent_span_id, siblings);
+            return;
+        }
+        this.print(span, 0);
+    }
+
+    private print(span: SpanData, depth: number): void {
+        this.write(`${'  '.repeat(depth)}${formatSpan(span)}`);
+        const children = (this.finished.get(span.span_id) || []).sort((a, b) => a.start_time - b.start_time);
+        this.finished.delete(span.span_id);
+        for (const child of children) {
+            this.print(child, depth + 1);
+        }
+    }
+}
+
+function formatSpan(span: SpanData): string {
+    const a = span.attributes;
+    const label = span.kind === 'run' ? a.agent
+        : span.kind === 'generate' ? `#${a.iteration} ${a.model ?? ''}`.trim()
+        : span.kind === 'tool' ? a.tool
+        : span.name;
+    const parts = [`${span.status === 'error' ? '✗' : '•'} ${span.kind} ${label ?? ''}`.trimEnd(), `${span.duration_ms}ms`];
+    if (a.input_tokens !== undefined || a.output_tokens !== undefined) {
+        parts.push(`tokens=${a.input_tokens ?? 0}/${a.output_tokens ?? 0}`);
+    }
+    if (typeof a.cost_usd === 'number') {
+        parts.push(`$${a.cost_usd.toFixed(4)}`);
+    }
+    if (a.stop_reason) {
+        parts.push(`stop=${a.stop_reason}`);
+    }
+    if (span.error) {
+        parts.push(`error: ${span.error.message}`);
+    }
+    return parts.join(' ');
+}
@@ -0,0 +1,4 @@
+export * from './tracer';
+export * from './jsonl';
+export * from './console';
+export * from './otel';
@@ -0,0 +1,31 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SpanData, SpanExporter } from '../types';
+
+/**
+ * Appends every finished span as one JSON line to a file. Writes are queued so lines
+ * keep their order; `shutdown()` waits for pending writes.
+ */
+export class JsonlFileExporter implements SpanExporter {
+    private filePath: string;
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    onEnd(span: SpanData): Promise<void> {
+        const line = JSON.stringify(span) + '\n';
+        this.pending = this.pending
+            .then(async () => {
+                await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.promises.appendFile(this.filePath, line, 'utf-8');
+            })
+            .catch(error => console.error(`Failed to write span to ${this.filePath}:`, error));
+        return this.pending;
+    }
+
+    shutdown(): Promise<void> {
+        return this.pending;
+    }
+}
@@ -0,0 +1,99 @@
+import { SpanData, SpanExporter } from '../types';
+
+/**
+ * The subset of an OpenTelemetry `Tracer` (from `@opentelemetry/api`) used by the adapter.
+ */
+export interface OTelTracerLike {
+    startSpan(name: string, options?: { startTime?: number; attributes?: Record<string, any> }, context?: unknown): OTelSpanLike;
+}
+
+/**
+ * The subset of an OpenTelemetry `Span` used by the adapter.
+ */
+export interface OTelSpanLike {
+    setAttribute(key: string, value: any): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(endTime?: number): void;
+}
+
+export interface OpenTelemetryExporterOptions {
+    /**
+     * Builds the OpenTelemetry context that makes a span the parent of the next one,
+     * e.g. `(parent) => trace.setSpan(context.active(), parent)`. Without it spans are exported unlinked.
+     */
+    contextWithParent?: (parent: OTelSpanLike) => unknown;
+}
+
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Mirrors spans into an OpenTelemetry tracer, so they reach any OTel backend
+ * (Jaeger, Honeycomb, Datadog, ...) with the usual OTel SDK setup. Token usage and the model are
+ * reported under the `gen_ai.*` semantic-convention names.
+ *
+ * @example
+ * ```typescript
+ * import { trace, context } from '@opentelemetry/api';
+ *
+ * const exporter = new OpenTelemetryExporter(trace.getTracer('agent-pulse'), {
+ *   contextWithParent: (parent) => trace.setSpan(context.active(), parent as any)
+ * });
+ * const tracer = new Tracer({ exporters: [exporter] });
+ * ```
+ */
+export class OpenTelemetryExporter implements SpanExporter {
+    private tracer: OTelTracerLike;
+    private options: OpenTelemetryExporterOptions;
+    private spans = new Map<string, OTelSpanLike>(); // Open OTel spans by span ID
+
+    constructor(tracer: OTelTracerLike, options: OpenTelemetryExporterOptions = {}) {
+        this.tracer = tracer;
+        this.options = options;
+    }
+
+    onStart(span: Omit<SpanData, 'end_time' | 'duration_ms' | 'status'>): void {
+        const parent = span.parent_span_id ? this.spans.get(span.parent_span_id) : undefined;
+        const context = parent && this.options.contextWithParent ? this.options.contextWithParent(parent) : undefined;
+        const otelSpan = this.tracer.startSpan(span.name, { startTime: span.start_time }, context);
+        this.spans.set(span.span_id, otelSpan);
+    }
+
+    onEnd(span: SpanData): void {
+        const otelSpan = this.spans.get(span.span_id);
+        if (!otelSpan) return;
+        this.spans.delete(span.span_id);
+
+        otelSpan.setAttribute('agent_pulse.kind', span.kind);
+        for (const [key, value] of Object.entries(span.attributes)) {
+            otelSpan.setAttribute(attributeName(key), toAttributeValue(value));
+        }
+        otelSpan.setStatus(span.status === 'error'
+            ? { code: STATUS_ERROR, message: span.error?.message }
+            : { code: STATUS_OK });
+        otelSpan.end(span.end_time);
+    }
+}
+
+const SEMANTIC_NAMES: Record<string, string> = {
+    model: 'gen_ai.request.model',
+    input_tokens: 'gen_ai.usage.input_tokens',
+    output_tokens: 'gen_ai.usage.output_tokens',
+    tool: 'gen_ai.tool.name',
+    tool_call_id: 'gen_ai.tool.call.id',
+    agent: 'gen_ai.agent.name'
+};
+
+function attributeName(key: string): string {
+    return SEMANTIC_NAMES[key] ?? `agent_pulse.${key}`;
+}
+
+/**
+ * OTel attributes only hold primitives (and arrays of them).
+ */
+function toAttributeValue(value: any): string | number | boolean {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value;
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,160 @@
+import { randomBytes } from 'crypto';
+import { RedactHook, SpanContentField, SpanContext, SpanData, SpanExporter, SpanKind } from '../types';
+
+export interface TracerOptions {
+    exporters: SpanExporter[];
+    redact?: RedactHook; // Rewrites inputs, outputs, tool arguments and results before they are recorded
+    capture_content?: boolean; // Record inputs, outputs, arguments and results at all (default: true)
+}
+
+/**
+ * Creates spans and hands them to the exporters. Exporter failures are logged and never
+ * affect the traced run.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new Tracer({
+ *   exporters: [new ConsoleExporter(), new JsonlFileExporter('traces.jsonl')],
+ *   redact: (value, { field }) => field === 'arguments' ? '[redacted]' : value
+ * });
+ * const agent = new Agent({ name: 'bot', provider, tracer });
+ * ```
+ */
+export class Tracer {
+    private options: TracerOptions;
+
+    constructor(options: TracerOptions) {
+        this.options = options;
+    }
+
+    startSpan(name: string, kind: SpanKind, options: { parent?: SpanContext; attributes?: Record<string, any> } = {}): Span {
+        const span = new Span(this, {
+            trace_id: options.parent?.trace_id ?? randomBytes(16).toString('hex'),
+            span_id: randomBytes(8).toString('hex'),
+            parent_span_id: options.parent?.span_id,
+            name,
+            kind,
+            start_time: Date.now(),
+            attributes: { ...options.attributes }
+        });
+        for (const exporter of this.options.exporters) {
+            if (!exporter.onStart) continue;
+            try {
+                exporter.onStart(span.snapshot());
+            } catch (error) {
+                console.error('Span exporter failed:', error);
+            }
+        }
+        return span;
+    }
+
+    /**
+     * Waits for exporters that write asynchronously (e.g. files) to finish.
+     */
+    async shutdown(): Promise<void> {
+        await Promise.all(this.options.exporters.map(exporter => exporter.shutdown?.()));
+    }
+
+    /** @internal */
+    content(value: unknown, field: SpanContentField, span: string, tool?: string): unknown {
+        if (this.options.capture_content === false) return undefined;
+        return this.options.redact ? this.options.redact(value, { field, span, tool }) : value;
+    }
+
+    /** @internal */
+    export(span: SpanData): void {
+        for (const exporter of this.options.exporters) {
+            try {
+                const result = exporter.onEnd(span);
+                if (result instanceof Promise) {
+                    result.catch(error => console.error('Span exporter failed:', error));
+                }
+            } catch (error) {
+                console.error('Span exporter failed:', error);
+            }
+        }
+    }
+}
+
+/**
+ * An open span. Attributes can be added until `end()` is called.
+ */
+export class Span {
+    private tracer: Tracer;
+    private data: Omit<SpanData, 'end_time' | 'duration_ms' | 'status'>;
+    private failed = false;
+    private ended = false;
+
+    constructor(tracer: Tracer, data: Omit<SpanData, 'end_time' | 'duration_ms' | 'status'>) {
+        this.tracer = tracer;
+        this.data = data;
+    }
+
+    get context(): SpanContext {
+        return { trace_id: this.data.trace_id, span_id: this.data.span_id };
+    }
+
+    startChild(name: string, kind: SpanKind, attributes?: Record<string, any>): Span {
+        return this.tracer.startSpan(name, kind, { parent: this.context, attributes });
+    }
+
+    setAttributes(attributes: Record<string, any>): this {
+        for (const [key, value] of Object.entries(attributes)) {
+            if (value !== undefined) {
+                this.data.attributes[key] = value;
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Records user or model content, subject to the tracer's redaction hook.
+     */
+    setContent(field: SpanContentField, value: unknown): this {
+        const content = this.tracer.content(value, field, this.data.name, this.data.attributes.tool);
+        return this.setAttributes({ [field]: content });
+    }
+
+    recordError(error: unknown): this {
+        this.failed = true;
+        const err = error as any;
+        this.data.error = {
+            message: err instanceof Error ? err.message : String(err),
+            ...(err?.error_key && { error_key: err.error_key }),
+            ...(err?.details?.kind && { kind: err.details.kind })
+        };
+        return this;
+    }
+
+    end(): void {
+        if (this.ended) return;
+        this.ended = true;
+        const end_time = Date.now();
+        this.tracer.export({
+            ...this.snapshot(),
+            end_time,
+            duration_ms: end_time - this.data.start_time,
+            status: this.failed ? 'error' : 'ok'
+        });
+    }
+
+    /** @internal */
+    snapshot(): Omit<SpanData, 'end_time' | 'duration_ms' | 'status'> {
+        return { ...this.data, attributes: { ...this.data.attributes } };
+    }
+}
+
+/**
+ * Runs `fn` inside `span`: errors are recorded on the span, which is ended either way.
+ * Without a span (tracing disabled) it just runs `fn`.
+ */
+export async function withSpan<T>(span: Span | undefined, fn: (span: Span | undefined) => Promise<T>): Promise<T> {
+    try {
+        return await fn(span);
+    } catch (error) {
+        span?.recordError(error);
+        throw error;
+    } finally {
+        span?.end();
+    }
+}
@@ -1,5 +1,6 @@
 
 import { z } from 'zod';
+import type { Tracer } from './tracing/tracer';
 
 export interface AgentMessage {
     role: 'system' | 'user' | 'assistant' | 'tool';
@@ -7,11 +8,12 @@ export interface AgentMessage {
     name?: string;
     tool_calls?: any[];
     tool_call_id?: string;
+    reasoning_blocks?: any[]; // Provider reasoning that must be sent back with the tool calls (e.g. signed Anthropic thinking)
     usage?: any;
     meta?: any;
 }
 
-export interface AgentConfig {
+export interface AgentConfig<TOutput = any> {
     name: string;
     provider: LLMProvider;
     prompt?: string;
@@ -19,47 +21,309 @@ export interface AgentConfig {
     files?: string[]; // Paths to files
     config?: Record<string, any>;
     tools?: AgentTool[];
-    output_schema?: z.ZodType<any>;
+    output_schema?: z.ZodType<TOutput>;
+    max_output_retries?: number; // Re-prompts when the output fails output_schema validation (default: 2)
     saveFunction?: (message: AgentMessage) => Promise<void> | void; // Persistence hook
     max_tool_iterations?: number;
+    parallel_tool_calls?: boolean; // Execute the tool calls of a single turn concurrently
+    max_tool_concurrency?: number; // Limit for parallel_tool_calls (default: 4)
+    retry?: RetryPolicy; // Retries transient provider failures (disabled when omitted)
+    memory?: MemoryStore; // Backing store for agent.session() (default: in-memory)
+    context?: ContextConfig; // Keeps requests within the model's context window (disabled when omitted)
+    pricing?: PriceTable; // Extends or overrides the built-in prices used for usage.cost_usd
+    budget?: Budget; // Stops the run gracefully when a limit is reached
+    tracer?: Tracer; // Records spans for runs, provider calls and tool calls
+}
+
+export type TokenEstimator = (text: string) => number;
+
+/**
+ * How the agent fits a long conversation into the model's context window.
+ * An assistant tool call and its tool results are always kept or removed together.
+ */
+export interface ContextConfig {
+    strategy?: 'sliding_window' | 'drop_oldest' | 'summarize'; // (default: 'drop_oldest')
+    max_tokens?: number; // Context window size (default: the known limit of the provider's model)
+    reserve_output_tokens?: number; // Room left for the response (default: config.max_tokens or 4096)
+    window_size?: number; // Most recent messages kept by 'sliding_window' (default: 20)
+    estimator?: TokenEstimator; // Token counter (default: ~4 characters per token)
+}
+
+/**
+ * Per-run limits. Token, cost and tool-call limits are checked between iterations,
+ * output tokens also while streaming, and the duration with a timer.
+ */
+export interface Budget {
+    max_input_tokens?: number;
+    max_output_tokens?: number;
+    max_cost_usd?: number;
+    max_duration_ms?: number;
+    max_tool_calls?: number;
+}
+
+/**
+ * Payload of the `budget_exceeded` event and `meta.budget` of the partial response.
+ */
+export interface BudgetExceeded {
+    limit: keyof Budget;
+    max: number;
+    actual: number;
+}
+
+export interface RetryPolicy {
+    max_attempts?: number; // Total attempts including the first one (default: 3)
+    base_delay_ms?: number; // Delay before the first retry, doubled on every attempt (default: 500)
+    max_delay_ms?: number; // Upper bound for a single delay (default: 30000)
+    jitter?: boolean; // Randomize delays to avoid thundering herds (default: true)
+    retry_on?: ErrorKind[]; // Error kinds worth retrying (default: rate_limit, server_error, timeout, connection)
+    respect_retry_after?: boolean; // Wait at least as long as the provider's Retry-After hint (default: true)
 }
 
 export interface AgentTool {
     name: string;
     description: string;
     parameters: z.ZodType<any>;
-    execute: (args: any) => Promise<any>;
+    strict?: boolean; // Ask OpenAI-compatible providers to guarantee arguments match the schema
+    requiresApproval?: boolean | ((args: any) => boolean | Promise<boolean>); // Pauses the run until agent.resume() decides on the call
+    execute: (args: any, context?: ToolContext) => Promise<any>;
 }
 
-export interface AgentResponse {
-    content: string | object;
+export interface ToolContext {
+    signal?: AbortSignal; // Aborted when the surrounding run is cancelled
+    tool_call_id?: string;
+    tracer?: Tracer; // Tracer of the calling run, for runs started by the tool
+    parent_span?: SpanContext; // Span of this tool call
+    reportUsage?: (entry: { agent: string; model: string; usage: TokenUsage; latency_ms: number }) => void; // Adds tokens spent inside the tool to the calling run
+    emitEvent?: (event: SubAgentEvent) => void; // Re-emits a nested agent's event on the calling agent
+}
+
+/**
+ * Options of `agent.asTool()`.
+ */
+export interface AgentToolOptions {
+    name?: string; // (default: the agent's name)
+    description: string;
+    inputSchema?: z.ZodType<any>; // (default: `{ input: string }`, passed to the sub-agent as its prompt)
+}
+
+/**
+ * An event of a sub-agent running as a tool, payload of the parent's `subagent` event.
+ */
+export interface SubAgentEvent {
+    agent: string; // Name of the sub-agent that emitted the event
+    tool_call_id?: string; // The parent's tool call that started the sub-agent
+    event: Extract<AgentEvent, { type: 'token' | 'tool_start' | 'tool_end' }>;
+}
+
+export interface RunOptions {
+    signal?: AbortSignal; // Cancels the run (provider stream and tool execution) when aborted
+    history?: AgentMessage[]; // Prior conversation, sent before the input
+    onMessage?: (message: AgentMessage) => void; // Receives every message the run adds to the conversation
+    onEvent?: (event: AgentEvent) => void; // Receives this run's events only, unlike listeners on the agent
+    budget?: Budget; // Limits for this run, combined with config.budget (the stricter limit wins)
+    tracer?: Tracer; // Used when the agent has no tracer of its own
+    parent_span?: SpanContext; // Makes the run span a child of this span (e.g. a chain step)
+}
+
+export interface AgentResponse<TContent = string | object> {
+    content: TContent;
     tool_calls?: any[]; // Internal use for loop handling
+    reasoning_blocks?: any[]; // Kept on the assistant tool-call message, see AgentMessage
     message?: string; // LLM's original text response (useful when combined with tool calls)
-    usage: {
-        input_tokens: number;
-        output_tokens: number;
-        total_tokens: number;
-        reasoning_tokens?: number;
-    };
+    usage: TokenUsage; // Summed over every provider call of the run
     meta: {
         model: string;
         latency_ms: number;
         [key: string]: any;
     };
+    suspended?: SuspendedRun; // Set when the run paused for tool approval (meta.stop_reason is 'approval_required')
 }
 
-export interface AgentEvent {
-    type: 'start' | 'token' | 'tool_start' | 'tool_end' | 'response' | 'error' | 'log';
-    payload: any;
+/**
+ * A tool call waiting for a human decision, with its validated arguments.
+ */
+export interface PendingToolCall {
+    id: string;
+    name: string;
+    arguments: any;
+}
+
+/**
+ * Everything needed to continue a run paused for tool approval. Plain JSON, so it can be
+ * stored and passed to `agent.resume()` from another process.
+ */
+export interface SuspendedRun {
+    version: 1;
+    agent: string;
+    messages: AgentMessage[]; // Conversation up to and including the assistant's tool calls
+    tool_calls: any[]; // Every call of the paused turn; calls that need no approval run on resume
+    pending: PendingToolCall[];
+    iteration: number;
+    usage: IterationUsage[];
+    budget_used: { tool_calls: number; elapsed_ms: number }; // Carried over so resuming does not reset max_tool_calls or max_duration_ms
+    response: AgentResponse; // The provider response that requested the tools
+}
+
+export type ApprovalDecision =
+    | { approved: true; arguments?: any } // Replacing the arguments edits the call before it runs
+    | { approved: false; reason?: string };
+
+export type ApprovalDecisions = Record<string, ApprovalDecision>; // Keyed by tool call id
+
+export interface TokenUsage {
+    input_tokens: number;
+    output_tokens: number; // Includes reasoning_tokens
+    total_tokens: number;
+    reasoning_tokens?: number;
+    cached_input_tokens?: number; // Part of input_tokens served from the provider's prompt cache
+    cost_usd?: number; // Set when prices are known for every model involved
 }
 
+/**
+ * Usage of a single provider call, listed in `meta.iterations`.
+ */
+export interface IterationUsage {
+    iteration: number; // Tool-loop iteration the call belongs to (1-based)
+    kind: 'generate' | 'summary' | 'subagent'; // 'summary' calls condense history for the context window
+    agent?: string; // Sub-agent whose whole run a 'subagent' entry covers
+    model: string;
+    usage: TokenUsage;
+    latency_ms: number;
+    estimated?: boolean; // Output of a call cut short by the budget, counted from the streamed text
+}
+
+/**
+ * Prices in USD per million tokens. Cached and reasoning tokens fall back to the input
+ * and output prices when omitted.
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cached_input?: number;
+    reasoning?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>; // Keyed by model-name prefix
+
+/**
+ * Events emitted by an agent run, as yielded by `agent.stream()`. Narrow on `type`
+ * to get the matching `payload`.
+ */
+export type AgentEvent<TOutput = string | object> =
+    | { type: 'start'; payload: { timestamp: number; inputContext: string | AgentMessage[]; resumed?: boolean } }
+    | { type: 'token'; payload: string }
+    | { type: 'tool_start'; payload: { tool: string; tool_call_id?: string; arguments: any } }
+    | { type: 'tool_end'; payload: { tool: string; tool_call_id?: string; result: any } }
+    | { type: 'response'; payload: AgentResponse<TOutput> }
+    | { type: 'error'; payload: AgentError }
+    | { type: 'log'; payload: { level: 'debug' | 'info' | 'warn' | 'error'; message: string } }
+    | { type: 'aborted'; payload: { timestamp: number; reason?: any } }
+    | { type: 'retry'; payload: { attempt: number; max_attempts: number; delay_ms: number; error: AgentError } }
+    | { type: 'token_reset'; payload: { attempt: number; discarded: string } }
+    | { type: 'reasoning'; payload: string }
+    | { type: 'budget_exceeded'; payload: BudgetExceeded }
+    | { type: 'approval_required'; payload: { pending: PendingToolCall[]; state: SuspendedRun } }
+    | { type: 'subagent'; payload: SubAgentEvent }
+    | { type: 'tool_call_delta'; payload: Omit<Extract<ProviderEvent, { type: 'tool_call_delta' }>, 'type'> }
+    | { type: 'context_trimmed'; payload: { strategy: string; messages_before: number; messages_after: number; tokens_before: number; tokens_after: number } };
+
+export type AgentEventType = AgentEvent['type'];
+
 export interface AgentError {
     error_key: 'network_error' | 'auth_error' | 'json_error' | 'execution_error' | 'retry_error';
     message: string;
     details?: any;
 }
 
+/**
+ * Fine-grained classification of a failure, recorded in `details.kind`.
+ * Several kinds share the same `error_key` (e.g. `rate_limit` and `timeout` are both `network_error`).
+ */
+export type ErrorKind =
+    | 'rate_limit'
+    | 'server_error'
+    | 'timeout'
+    | 'connection'
+    | 'auth'
+    | 'invalid_request'
+    | 'content_filter'
+    | 'invalid_json'
+    | 'unknown';
+
+export interface AgentErrorDetails {
+    kind: ErrorKind;
+    provider?: string;
+    status?: number;
+    retry_after_ms?: number;
+    cause?: unknown;
+    [key: string]: any;
+}
+
+export type SpanKind = 'chain' | 'run' | 'generate' | 'tool';
+
+export interface SpanContext {
+    trace_id: string;
+    span_id: string;
+}
+
+/**
+ * A finished span as handed to exporters.
+ */
+export interface SpanData extends SpanContext {
+    parent_span_id?: string;
+    name: string;
+    kind: SpanKind;
+    start_time: number; // Epoch milliseconds
+    end_time: number;
+    duration_ms: number;
+    status: 'ok' | 'error';
+    attributes: Record<string, any>;
+    error?: { message: string; error_key?: string; kind?: string };
+}
+
+/**
+ * Receives spans from a Tracer. `onStart` gets the span before its children,
+ * without end time, status or the attributes set later.
+ */
+export interface SpanExporter {
+    onStart?(span: Omit<SpanData, 'end_time' | 'duration_ms' | 'status'>): void;
+    onEnd(span: SpanData): void | Promise<void>;
+    shutdown?(): Promise<void>;
+}
+
+/**
+ * Field of a span that holds user or model content, passed to redaction hooks.
+ */
+export type SpanContentField = 'input' | 'output' | 'arguments' | 'result';
+
+/**
+ * Rewrites content before it is attached to a span. Return undefined to drop it.
+ */
+export type RedactHook = (value: unknown, info: { field: SpanContentField; span: string; tool?: string }) => unknown;
+
+/**
+ * Persists conversation history for `agent.session()`. Implement it to back sessions
+ * with Redis, Postgres, etc.
+ */
+export interface MemoryStore {
+    load(sessionId: string): Promise<AgentMessage[]>;
+    append(sessionId: string, messages: AgentMessage[]): Promise<void>; // Must store all messages or none
+    clear(sessionId: string): Promise<void>;
+}
+
+/**
+ * Connection options accepted by the built-in providers and by `createProvider`.
+ */
+export interface ProviderOptions {
+    apiKey?: string;
+    baseURL?: string;
+    headers?: Record<string, string>;
+    timeout?: number; // Request timeout in milliseconds
+    [key: string]: any; // Provider-specific options (e.g. OpenAICompatibleOptions)
+}
+
 export interface LLMProvider {
+    readonly model?: string; // Used to look up the context window
     generate(
         system: string | undefined,
         prompt: string | AgentMessage[],
@@ -67,6 +331,24 @@ export interface LLMProvider {
         tools: AgentTool[] | undefined,
         config: Record<string, any> | undefined,
         output_schema: z.ZodType<any> | undefined,
-        onToken: (token: string) => void
+        onToken: (token: string) => void,
+        signal?: AbortSignal,
+        onEvent?: (event: ProviderEvent) => void
     ): Promise<AgentResponse>;
 }
+
+/**
+ * Streaming output besides answer tokens, reported through the `onEvent` callback of `generate()`.
+ * Answer text goes to `onToken`; providers that only use `onEvent` may send it as `text` events instead (not both).
+ */
+export type ProviderEvent =
+    | { type: 'text'; text: string }
+    | { type: 'reasoning'; text: string } // Thinking / reasoning summary text, not part of the answer
+    | {
+        type: 'tool_call_delta';
+        index: number; // Position of the call within the response
+        id?: string;
+        name?: string;
+        arguments_delta: string; // New fragment of the JSON arguments
+        arguments: string; // Arguments received so far
+    };
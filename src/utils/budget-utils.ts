@@ -0,0 +1,160 @@
+import { Budget, BudgetExceeded, TokenUsage } from '../types';
+import { estimateTokens } from './token-utils';
+
+/**
+ * Combines budgets limit by limit, keeping the stricter value.
+ */
+export function mergeBudgets(...budgets: (Budget | undefined)[]): Budget | undefined {
+    let merged: Budget | undefined;
+    for (const budget of budgets) {
+        if (!budget) continue;
+        merged = merged || {};
+        for (const key of Object.keys(budget) as (keyof Budget)[]) {
+            const value = budget[key];
+            if (value === undefined) continue;
+            merged[key] = merged[key] === undefined ? value : Math.min(merged[key]!, value);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Budget consumed before the tracker was created, e.g. by a run that paused for tool approval.
+ */
+export interface BudgetUsed {
+    tool_calls: number;
+    elapsed_ms: number;
+}
+
+/**
+ * Tracks what a run has consumed against its budget. When a limit is crossed, `signal`
+ * is aborted so the in-flight provider call or tool stops, and `exceeded` says which limit it was.
+ */
+export class BudgetTracker {
+    readonly signal: AbortSignal;
+    exceeded: BudgetExceeded | null = null;
+    partialText = ''; // Text streamed by the current provider call
+    unpricedCalls = 0; // Calls counted without a cost while max_cost_usd is set, so the limit missed them
+
+    private budget: Budget;
+    private controller = new AbortController();
+    private startTime: number;
+    private usage = { input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+    private toolCalls = 0;
+    private streamedOutputTokens = 0;
+    private timer: ReturnType<typeof setTimeout> | undefined;
+    private onParentAbort: () => void;
+
+    constructor(budget: Budget | undefined, private parentSignal: AbortSignal, used: BudgetUsed = { tool_calls: 0, elapsed_ms: 0 }) {
+        this.budget = budget || {};
+        this.startTime = Date.now() - used.elapsed_ms;
+        this.toolCalls = used.tool_calls;
+        this.signal = this.controller.signal;
+        this.onParentAbort = () => this.controller.abort(parentSignal.reason);
+        if (parentSignal.aborted) {
+            this.controller.abort(parentSignal.reason);
+        } else {
+            parentSignal.addEventListener('abort', this.onParentAbort, { once: true });
+        }
+
+        if (this.budget.max_duration_ms !== undefined) {
+            this.timer = setTimeout(() => {
+                this.exceed('max_duration_ms', Date.now() - this.startTime);
+            }, Math.max(0, this.budget.max_duration_ms - used.elapsed_ms));
+        }
+    }
+
+    /**
+     * Counts a finished provider call and checks the token and cost limits.
+     */
+    addUsage(usage: TokenUsage): boolean {
+        this.usage.input_tokens += usage.input_tokens || 0;
+        this.usage.output_tokens += usage.output_tokens || 0;
+        if (usage.cost_usd !== undefined) {
+            this.usage.cost_usd += usage.cost_usd;
+        } else if (this.budget.max_cost_usd !== undefined) {
+            this.unpricedCalls++;
+        }
+        this.resetStream();
+        return this.check();
+    }
+
+    /**
+     * Counts streamed output of the current call and stops it once the output budget is spent.
+     */
+    addStreamedOutput(text: string, answer: boolean): void {
+        if (answer) {
+            this.partialText += text;
+        }
+        this.streamedOutputTokens += estimateTokens(text);
+        const max = this.budget.max_output_tokens;
+        const actual = this.usage.output_tokens + this.streamedOutputTokens;
+        if (max !== undefined && actual > max) {
+            this.exceed('max_output_tokens', actual);
+        }
+    }
+
+    /**
+     * What the run has consumed so far, for carrying the budget over to a resumed run.
+     */
+    get used(): BudgetUsed {
+        return { tool_calls: this.toolCalls, elapsed_ms: Date.now() - this.startTime };
+    }
+
+    resetStream(): void {
+        this.partialText = '';
+        this.streamedOutputTokens = 0;
+    }
+
+    /**
+     * Estimated output of a provider call that was cut short.
+     */
+    get streamedTokens(): number {
+        return this.streamedOutputTokens;
+    }
+
+    /**
+     * Whether `count` more tool calls fit the budget. Marks the budget exceeded when they do not.
+     */
+    allowToolCalls(count: number): boolean {
+        const max = this.budget.max_tool_calls;
+        if (max !== undefined && this.toolCalls + count > max) {
+            this.exceed('max_tool_calls', this.toolCalls + count);
+            return false;
+        }
+        this.toolCalls += count;
+        return true;
+    }
+
+    /**
+     * Checks every limit that is enforced between iterations.
+     */
+    check(): boolean {
+        if (this.exceeded) return false;
+        const checks: [keyof Budget, number][] = [
+            ['max_input_tokens', this.usage.input_tokens],
+            ['max_output_tokens', this.usage.output_tokens],
+            ['max_cost_usd', this.usage.cost_usd],
+            ['max_duration_ms', Date.now() - this.startTime]
+        ];
+        for (const [limit, actual] of checks) {
+            const max = this.budget[limit];
+            if (max !== undefined && actual > max) {
+                this.exceed(limit, actual);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    dispose(): void {
+        clearTimeout(this.timer);
+        this.parentSignal.removeEventListener('abort', this.onParentAbort);
+    }
+
+    private exceed(limit: keyof Budget, actual: number): void {
+        if (this.exceeded) return;
+        this.exceeded = { limit, max: this.budget[limit]!, actual };
+        this.controller.abort(this.exceeded);
+    }
+}
@@ -0,0 +1,132 @@
+import { AgentMessage, TokenEstimator } from '../types';
+import { estimateMessagesTokens, estimateTokens } from './token-utils';
+
+export const SUMMARY_SYSTEM_PROMPT = 'You summarize conversations between a user and an AI assistant. ' +
+    'Write a concise summary that preserves facts, decisions, user preferences, tool results and open questions ' +
+    'the assistant needs to continue the conversation. Reply with the summary only.';
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:';
+
+/**
+ * Splits a conversation into units that must be kept or removed together: an assistant
+ * message with tool calls and the tool results that follow it form a single unit, because
+ * providers reject tool results whose tool call is missing.
+ */
+export function groupMessages(messages: AgentMessage[]): AgentMessage[][] {
+    const units: AgentMessage[][] = [];
+    for (const message of messages) {
+        if (message.role === 'tool' && units.length > 0) {
+            units[units.length - 1].push(message);
+        } else {
+            units.push([message]);
+        }
+    }
+    return units;
+}
+
+/**
+ * Keeps the most recent units holding at most `windowSize` messages. The last unit is always kept.
+ */
+export function applySlidingWindow(messages: AgentMessage[], windowSize: number): AgentMessage[] {
+    if (messages.length <= windowSize) return messages;
+    const units = groupMessages(messages);
+    const kept: AgentMessage[][] = [units[units.length - 1]];
+    let count = kept[0].length;
+    for (let i = units.length - 2; i >= 0 && count + units[i].length <= windowSize; i--) {
+        kept.unshift(units[i]);
+        count += units[i].length;
+    }
+    return startAtUserTurn(kept);
+}
+
+/**
+ * Removes the oldest units until the conversation fits `budget` tokens. System messages,
+ * summaries of earlier turns and the last unit are never removed.
+ */
+export function dropOldest(messages: AgentMessage[], budget: number, estimator: TokenEstimator = estimateTokens): AgentMessage[] {
+    let total = estimateMessagesTokens(messages, estimator);
+    if (total <= budget) return messages;
+
+    const units = groupMessages(messages);
+    const removed = new Set<number>();
+    for (let i = 0; i < units.length - 1 && total > budget; i++) {
+        if (units[i].some(isPinned)) continue;
+        removed.add(i);
+        total -= estimateMessagesTokens(units[i], estimator);
+    }
+    return startAtUserTurn(units.filter((_, i) => !removed.has(i)));
+}
+
+/**
+ * Divides a conversation into system messages, older units to summarize, and the most recent
+ * units that fit `recentBudget` tokens (at least the last unit).
+ */
+export function splitForSummary(
+    messages: AgentMessage[],
+    recentBudget: number,
+    estimator: TokenEstimator = estimateTokens
+): { system: AgentMessage[]; older: AgentMessage[]; recent: AgentMessage[] } {
+    const system = messages.filter(m => m.role === 'system');
+    const units = groupMessages(messages.filter(m => m.role !== 'system'));
+    if (units.length === 0) {
+        return { system, older: [], recent: [] };
+    }
+
+    let start = units.length - 1;
+    let tokens = estimateMessagesTokens(units[start], estimator);
+    while (start > 0) {
+        const next = estimateMessagesTokens(units[start - 1], estimator);
+        if (tokens + next > recentBudget) break;
+        tokens += next;
+        start--;
+    }
+    return { system, older: units.slice(0, start).flat(), recent: units.slice(start).flat() };
+}
+
+/**
+ * Renders messages as a plain transcript for the summarization request.
+ */
+export function formatTranscript(messages: AgentMessage[]): string {
+    return messages.map(m => {
+        const content = typeof m.content === 'string' ? m.content : m.content ? JSON.stringify(m.content) : '';
+        if (m.role === 'tool') {
+            return `Tool result (${m.name || m.tool_call_id}): ${content}`;
+        }
+        const calls = (m.tool_calls || []).map(tc =>
+            `Called tool ${tc.name}(${typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments)})`
+        );
+        const speaker = m.meta?.context_summary ? 'Earlier summary' : m.role === 'assistant' ? 'Assistant' : m.role === 'system' ? 'System' : 'User';
+        return [`${speaker}: ${content}`, ...calls].join('\n');
+    }).join('\n\n');
+}
+
+/**
+ * Wraps a summary so it can take the place of the turns it summarizes. It is sent as a user
+ * message because not every provider accepts system messages inside the conversation.
+ */
+export function toSummaryMessage(summary: string): AgentMessage {
+    return {
+        role: 'user',
+        content: `${SUMMARY_PREFIX}\n${summary}`,
+        meta: { context_summary: true }
+    };
+}
+
+function isPinned(message: AgentMessage): boolean {
+    return message.role === 'system' || !!message.meta?.context_summary;
+}
+
+/**
+ * Makes trimmed units start with a user turn: a leading tool result has lost its tool call,
+ * and several providers reject a conversation that opens with an assistant message.
+ * Leading system messages stay; nothing is removed when no later unit starts with a user message.
+ */
+function startAtUserTurn(units: AgentMessage[][]): AgentMessage[] {
+    let first = 0;
+    while (first < units.length && units[first][0].role === 'system') first++;
+    const start = units.findIndex((unit, i) => i >= first && unit[0].role === 'user');
+    if (start <= first) {
+        return units.flat();
+    }
+    return [...units.slice(0, first), ...units.slice(start)].flat();
+}
@@ -0,0 +1,152 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { AgentError, ErrorKind } from '../types';
+import { AgentPulseError } from '../errors';
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+const TIMEOUT_ERROR_CODES = ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'];
+
+/**
+ * Maps a kind onto the public `error_key` documented on `AgentError`.
+ */
+export function errorKeyForKind(kind: ErrorKind): AgentError['error_key'] {
+    switch (kind) {
+        case 'rate_limit':
+        case 'server_error':
+        case 'timeout':
+        case 'connection':
+            return 'network_error';
+        case 'auth':
+            return 'auth_error';
+        case 'invalid_json':
+            return 'json_error';
+        default:
+            return 'execution_error';
+    }
+}
+
+/**
+ * Classifies an HTTP status code.
+ */
+export function kindForStatus(status: number): ErrorKind {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 408) return 'timeout';
+    if (status === 429) return 'rate_limit';
+    if (status >= 500) return 'server_error';
+    if (status >= 400) return 'invalid_request';
+    return 'unknown';
+}
+
+/**
+ * Parses a `Retry-After` header value (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+}
+
+function readHeader(headers: any, name: string): string | undefined {
+    if (!headers) return undefined;
+    if (typeof headers.get === 'function') {
+        return headers.get(name) ?? undefined;
+    }
+    return headers[name] ?? headers[name.toLowerCase()] ?? undefined;
+}
+
+function retryAfterFromHeaders(headers: any): number | undefined {
+    const retryAfterMs = Number(readHeader(headers, 'retry-after-ms'));
+    if (!isNaN(retryAfterMs) && retryAfterMs > 0) {
+        return retryAfterMs;
+    }
+    return parseRetryAfter(readHeader(headers, 'retry-after'));
+}
+
+/**
+ * Gemini reports retry hints inside the error body (`"retryDelay": "30s"`) rather than as a header.
+ */
+function retryAfterFromMessage(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function isContentFilter(message: string): boolean {
+    return /content[_ ]filter|content_policy|SAFETY|blocked by safety/i.test(message);
+}
+
+/**
+ * Normalizes any error thrown by a provider SDK (OpenAI, x.ai via the OpenAI SDK, Anthropic, `@google/genai`)
+ * or by the runtime into an `AgentPulseError` with a populated `error_key`.
+ *
+ * @param error The caught error
+ * @param provider Name of the provider that raised it (e.g. 'openai', 'google', 'grok')
+ */
+export function normalizeError(error: unknown, provider?: string): AgentPulseError {
+    if (error instanceof AgentPulseError) {
+        if (provider && !error.details.provider) {
+            error.details.provider = provider;
+        }
+        return error;
+    }
+
+    const err: any = error;
+    const message: string = err?.message || String(error);
+    let kind: ErrorKind = 'unknown';
+    let status: number | undefined;
+    let retryAfterMs: number | undefined;
+
+    if (error instanceof OpenAI.APIConnectionTimeoutError || error instanceof Anthropic.APIConnectionTimeoutError) {
+        kind = 'timeout';
+    } else if (error instanceof OpenAI.APIConnectionError || error instanceof Anthropic.APIConnectionError) {
+        kind = 'connection';
+    } else if (error instanceof OpenAI.APIError && typeof error.status === 'number') {
+        status = error.status;
+        kind = kindForStatus(status);
+        retryAfterMs = retryAfterFromHeaders(error.headers);
+        if (kind === 'invalid_request' && (err.code === 'content_filter' || isContentFilter(message))) {
+            kind = 'content_filter';
+        }
+    } else if (typeof err?.status === 'number') {
+        // Anthropic, @google/genai ApiError and other HTTP-shaped errors
+        status = err.status as number;
+        kind = kindForStatus(status);
+        retryAfterMs = retryAfterFromHeaders(err.headers) ?? retryAfterFromMessage(message);
+        if (kind === 'invalid_request' && isContentFilter(message)) {
+            kind = 'content_filter';
+        }
+    } else if (error instanceof SyntaxError) {
+        kind = 'invalid_json';
+    } else if (TIMEOUT_ERROR_CODES.includes(err?.code ?? err?.cause?.code) || err?.name === 'TimeoutError') {
+        kind = 'timeout';
+    } else if (NETWORK_ERROR_CODES.includes(err?.code ?? err?.cause?.code) || (err instanceof TypeError && /fetch failed/i.test(message))) {
+        kind = 'connection';
+    }
+
+    return new AgentPulseError(errorKeyForKind(kind), message, {
+        kind,
+        provider,
+        status,
+        retry_after_ms: retryAfterMs,
+        cause: error
+    });
+}
+
+/**
+ * Re-throws errors raised while iterating a provider stream as normalized `AgentPulseError`s.
+ */
+export async function* normalizeStreamErrors<T>(stream: AsyncIterable<T>, provider: string): AsyncGenerator<T> {
+    try {
+        for await (const chunk of stream) {
+            yield chunk;
+        }
+    } catch (error) {
+        throw normalizeError(error, provider);
+    }
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export type StructuredOutputResult<T> =
+    | { success: true; data: T }
+    | { success: false; raw: string; message: string; issues: ValidationIssue[] };
+
+/**
+ * Flattens Zod issues into a compact, model-readable form.
+ */
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+    return error.issues.map(issue => ({
+        path: issue.path.map(String).join('.'),
+        message: issue.message
+    }));
+}
+
+/**
+ * Strips a Markdown code fence (```json ... ```) that models like to wrap JSON in.
+ */
+function stripCodeFence(text: string): string {
+    const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+    return match ? match[1] : text;
+}
+
+/**
+ * Parses a provider's raw content and validates it against the output schema.
+ * Content that is already an object (custom providers) is validated as-is.
+ */
+export function parseStructuredOutput<T>(content: unknown, schema: z.ZodType<T>): StructuredOutputResult<T> {
+    const raw = typeof content === 'string' ? content : JSON.stringify(content);
+
+    let value: unknown = content;
+    if (typeof content === 'string') {
+        try {
+            value = JSON.parse(stripCodeFence(content));
+        } catch (e) {
+            const message = `Response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`;
+            return { success: false, raw, message, issues: [{ path: '', message }] };
+        }
+    }
+
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+        return { success: false, raw, message: 'Response does not match the output schema', issues: toValidationIssues(parsed.error) };
+    }
+    return { success: true, data: parsed.data };
+}
+
+/**
+ * Builds the follow-up user message asking the model to fix its previous structured output.
+ */
+export function buildOutputCorrectionPrompt(issues: ValidationIssue[]): string {
+    const lines = issues.map(issue => `- ${issue.path ? `${issue.path}: ` : ''}${issue.message}`);
+    return `Your previous response was not valid JSON for the required schema:\n${lines.join('\n')}\n\nRespond again with only the corrected JSON.`;
+}
@@ -0,0 +1,93 @@
+import { ModelPrice, PriceTable, TokenUsage } from '../types';
+
+/**
+ * Approximate list prices (USD per million tokens), matched by model-name prefix (the longest
+ * matching prefix wins). Providers change prices; override them with `registerModelPrice`
+ * or `AgentConfig.pricing`.
+ */
+const PRICES: PriceTable = {
+    'gpt-4o': { input: 2.5, cached_input: 1.25, output: 10 },
+    'gpt-4o-mini': { input: 0.15, cached_input: 0.075, output: 0.6 },
+    'gpt-4.1': { input: 2, cached_input: 0.5, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, cached_input: 0.1, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, cached_input: 0.025, output: 0.4 },
+    'gpt-5': { input: 1.25, cached_input: 0.125, output: 10 },
+    'gpt-5-mini': { input: 0.25, cached_input: 0.025, output: 2 },
+    'gpt-5-nano': { input: 0.05, cached_input: 0.005, output: 0.4 },
+    'o3': { input: 2, cached_input: 0.5, output: 8 },
+    'o4-mini': { input: 1.1, cached_input: 0.275, output: 4.4 },
+    'claude-opus-4': { input: 15, cached_input: 1.5, output: 75 },
+    'claude-opus-4-5': { input: 5, cached_input: 0.5, output: 25 },
+    'claude-sonnet-4': { input: 3, cached_input: 0.3, output: 15 },
+    'claude-haiku-4-5': { input: 1, cached_input: 0.1, output: 5 },
+    'claude-3-5-haiku': { input: 0.8, cached_input: 0.08, output: 4 },
+    'gemini-2.0-flash': { input: 0.1, cached_input: 0.025, output: 0.4 },
+    'gemini-2.5-flash': { input: 0.3, cached_input: 0.075, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, cached_input: 0.31, output: 10 },
+    'grok-3': { input: 3, cached_input: 0.75, output: 15 },
+    'grok-3-mini': { input: 0.3, cached_input: 0.075, output: 0.5 },
+    'grok-4': { input: 3, cached_input: 0.75, output: 15 },
+};
+
+/**
+ * Adds or overrides the price of models whose name starts with `modelPrefix`.
+ */
+export function registerModelPrice(modelPrefix: string, price: ModelPrice): void {
+    PRICES[modelPrefix] = price;
+}
+
+/**
+ * Looks up the price of a model in `overrides` first, then in the built-in table.
+ */
+export function getModelPrice(model: string | undefined, overrides?: PriceTable): ModelPrice | undefined {
+    if (!model) return undefined;
+    const name = model.replace(/^models\//, '').toLowerCase();
+    return matchPrefix(name, overrides || {}) ?? matchPrefix(name, PRICES);
+}
+
+/**
+ * Cost of one call in USD. Cached input and reasoning tokens are billed at their own rates
+ * when the price defines them.
+ */
+export function computeCost(usage: TokenUsage, price: ModelPrice): number {
+    const cached = usage.cached_input_tokens || 0;
+    const reasoning = usage.reasoning_tokens || 0;
+    const cost = (usage.input_tokens - cached) * price.input
+        + cached * (price.cached_input ?? price.input)
+        + (usage.output_tokens - reasoning) * price.output
+        + reasoning * (price.reasoning ?? price.output);
+    return cost / 1_000_000;
+}
+
+/**
+ * Adds up usage records. Optional counters and the cost only appear when an input has them;
+ * the cost is dropped when any record lacks one, a partial sum would understate it.
+ */
+export function sumUsage(usages: TokenUsage[]): TokenUsage {
+    const total: TokenUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+    for (const usage of usages) {
+        total.input_tokens += usage.input_tokens || 0;
+        total.output_tokens += usage.output_tokens || 0;
+        total.total_tokens += usage.total_tokens || 0;
+        if (usage.reasoning_tokens !== undefined) {
+            total.reasoning_tokens = (total.reasoning_tokens || 0) + usage.reasoning_tokens;
+        }
+        if (usage.cached_input_tokens !== undefined) {
+            total.cached_input_tokens = (total.cached_input_tokens || 0) + usage.cached_input_tokens;
+        }
+    }
+    if (usages.length > 0 && usages.every(u => u.cost_usd !== undefined)) {
+        total.cost_usd = usages.reduce((sum, u) => sum + u.cost_usd!, 0);
+    }
+    return total;
+}
+
+function matchPrefix(name: string, table: PriceTable): ModelPrice | undefined {
+    let match: string | undefined;
+    for (const prefix of Object.keys(table)) {
+        if (name.startsWith(prefix.toLowerCase()) && (!match || prefix.length > match.length)) {
+            match = prefix;
+        }
+    }
+    return match ? table[match] : undefined;
+}
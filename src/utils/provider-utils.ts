@@ -0,0 +1,24 @@
+import { ProviderOptions } from '../types';
+import { AgentPulseError } from '../errors';
+
+/**
+ * Providers accept either a bare API key (the original signature) or a ProviderOptions object.
+ */
+export function resolveProviderOptions(apiKeyOrOptions: string | ProviderOptions | undefined): ProviderOptions {
+    if (typeof apiKeyOrOptions === 'string') {
+        return { apiKey: apiKeyOrOptions };
+    }
+    return apiKeyOrOptions || {};
+}
+
+/**
+ * Resolves a hosted provider's API key from the options or its environment variable,
+ * failing at construction instead of on the first request.
+ */
+export function requireApiKey(apiKey: string | undefined, envVar: string, provider: string): string {
+    const key = apiKey || process.env[envVar];
+    if (!key) {
+        throw new AgentPulseError('auth_error', `Missing API key for ${provider}: pass apiKey or set ${envVar}`, { kind: 'auth', provider });
+    }
+    return key;
+}
@@ -0,0 +1,59 @@
+import { RetryPolicy } from '../types';
+import { AgentPulseError, AgentAbortError } from '../errors';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    max_attempts: 3,
+    base_delay_ms: 500,
+    max_delay_ms: 30000,
+    jitter: true,
+    retry_on: ['rate_limit', 'server_error', 'timeout', 'connection'],
+    respect_retry_after: true
+};
+
+/**
+ * Fills in defaults. Without a policy, a single attempt is made.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy | undefined): Required<RetryPolicy> {
+    if (!policy) {
+        return { ...DEFAULT_RETRY_POLICY, max_attempts: 1 };
+    }
+    return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, the other half random.
+ * A Retry-After hint from the provider raises the delay, capped at `max_delay_ms`.
+ *
+ * @param attempt The attempt that just failed (1-based)
+ */
+export function computeRetryDelay(policy: Required<RetryPolicy>, attempt: number, error: AgentPulseError): number {
+    const exponential = Math.min(policy.max_delay_ms, policy.base_delay_ms * Math.pow(2, attempt - 1));
+    let delay = policy.jitter ? exponential / 2 + Math.random() * exponential / 2 : exponential;
+
+    const retryAfter = error.details.retry_after_ms;
+    if (policy.respect_retry_after && retryAfter !== undefined) {
+        delay = Math.min(policy.max_delay_ms, Math.max(delay, retryAfter));
+    }
+    return Math.round(delay);
+}
+
+/**
+ * Resolves after `ms`, or rejects with an `AgentAbortError` as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AgentAbortError(undefined, signal.reason));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AgentAbortError(undefined, signal?.reason));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
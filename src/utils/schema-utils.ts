@@ -0,0 +1,110 @@
+import OpenAI from 'openai';
+import { z, toJSONSchema } from 'zod';
+import { AgentTool } from '../types';
+import { AgentPulseError } from '../errors';
+
+export interface ProviderJSONSchema {
+    schema: Record<string, unknown>;
+    strict: boolean; // Whether the schema satisfies the constraints of strict structured outputs
+}
+
+/**
+ * Strict mode requires every object to list all of its properties as required
+ * and to disallow additional properties.
+ */
+function isStrictCompatible(node: any): boolean {
+    if (!node || typeof node !== 'object') {
+        return true;
+    }
+    if (Array.isArray(node)) {
+        return node.every(isStrictCompatible);
+    }
+    if (node.type === 'object') {
+        const required: string[] = node.required || [];
+        if (node.additionalProperties !== false) return false;
+        if (Object.keys(node.properties || {}).some(key => !required.includes(key))) return false;
+    }
+    return Object.values(node).every(isStrictCompatible);
+}
+
+/**
+ * Converts a Zod schema to the JSON Schema sent to OpenAI-compatible APIs
+ * (`response_format.json_schema` and tool `parameters`), and reports whether it can be used with `strict: true`.
+ * Optional fields make a schema non-strict; model them as `.nullable()` to keep strict mode.
+ */
+export function toProviderJSONSchema(schema: z.ZodType<any>): ProviderJSONSchema {
+    const { $schema, ...jsonSchema } = toJSONSchema(schema as any) as Record<string, any>;
+    return {
+        schema: jsonSchema,
+        strict: jsonSchema.type === 'object' && isStrictCompatible(jsonSchema)
+    };
+}
+
+/**
+ * Builds the chat-completions `response_format` for an output schema.
+ * With `native` set, the schema itself is sent (`json_schema`, strict when possible);
+ * otherwise only JSON mode is requested and the prompt has to ask for JSON.
+ */
+export function toResponseFormat(
+    schema: z.ZodType<any> | undefined,
+    native: boolean
+): OpenAI.ResponseFormatJSONSchema | OpenAI.ResponseFormatJSONObject | undefined {
+    if (!schema) {
+        return undefined;
+    }
+    if (!native) {
+        return { type: 'json_object' };
+    }
+    const { schema: jsonSchema, strict } = toProviderJSONSchema(schema);
+    return {
+        type: 'json_schema',
+        json_schema: { name: 'output', schema: jsonSchema, strict }
+    };
+}
+
+/**
+ * Throws for tools that request strict mode with a schema that cannot be strict,
+ * so the mistake surfaces once instead of being silently relaxed on every request.
+ */
+export function assertStrictTools(tools: AgentTool[] | undefined): void {
+    for (const tool of tools || []) {
+        if (tool.strict && !toProviderJSONSchema(tool.parameters).strict) {
+            throw new AgentPulseError('execution_error', `Tool ${tool.name} requests strict mode, but its schema has optional fields or open objects. Use .nullable() instead of .optional(), or drop strict.`, {
+                kind: 'invalid_request',
+                tool: tool.name
+            });
+        }
+    }
+}
+
+/**
+ * JSON mode requires the word "json" to appear in the messages, so it is appended
+ * to the last user message.
+ */
+export function appendJsonInstruction(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): void {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const msg = messages[i];
+        if (msg.role === 'user' && typeof msg.content === 'string') {
+            msg.content = `${msg.content}\n\nPlease respond with valid JSON.`;
+            return;
+        }
+    }
+}
+
+/**
+ * Converts an AgentTool into a chat-completions function definition.
+ * `strict` is only sent when the tool asks for it and its schema allows it;
+ * the Agent rejects tools that ask for it with a schema that does not (see assertStrictTools).
+ */
+export function toFunctionTool(tool: AgentTool): OpenAI.Chat.ChatCompletionTool {
+    const { schema, strict } = toProviderJSONSchema(tool.parameters);
+    return {
+        type: 'function',
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: schema,
+            ...(tool.strict && { strict })
+        }
+    };
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import { AgentMessage, AgentTool, TokenEstimator } from '../types';
+import { isImageFile, validateFileExtension } from './file-utils';
+import { toProviderJSONSchema } from './schema-utils';
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and separators added by the chat format
+const IMAGE_TOKENS = 1000; // Rough cost of one image part; varies by provider and resolution
+
+/**
+ * Context window sizes in tokens, matched by model-name prefix (the longest matching prefix wins).
+ */
+const CONTEXT_LIMITS: Record<string, number> = {
+    'gpt-3.5-turbo': 16385,
+    'gpt-4': 8192,
+    'gpt-4-turbo': 128000,
+    'gpt-4o': 128000,
+    'gpt-4.1': 1047576,
+    'gpt-5': 400000,
+    'o1': 200000,
+    'o3': 200000,
+    'o4-mini': 200000,
+    'claude-': 200000,
+    'gemini-1.5-flash': 1048576,
+    'gemini-1.5-pro': 2097152,
+    'gemini-2': 1048576,
+    'gemini-3': 1048576,
+    'grok-2': 131072,
+    'grok-3': 131072,
+    'grok-4': 256000,
+};
+
+/**
+ * Adds or overrides the context window for models whose name starts with `modelPrefix`.
+ */
+export function registerContextLimit(modelPrefix: string, tokens: number): void {
+    CONTEXT_LIMITS[modelPrefix] = tokens;
+}
+
+/**
+ * Returns the context window of a model, or undefined when it is not known.
+ * Gemini resource names (`models/gemini-2.5-pro`) are accepted too.
+ */
+export function getContextLimit(model: string | undefined): number | undefined {
+    if (!model) return undefined;
+    const name = model.replace(/^models\//, '').toLowerCase();
+    let match: string | undefined;
+    for (const prefix of Object.keys(CONTEXT_LIMITS)) {
+        if (name.startsWith(prefix) && (!match || prefix.length > match.length)) {
+            match = prefix;
+        }
+    }
+    return match ? CONTEXT_LIMITS[match] : undefined;
+}
+
+/**
+ * Heuristic token count (~4 characters per token). Good enough for budgeting;
+ * plug in a real tokenizer through `context.estimator` for exact counts.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: AgentMessage, estimator: TokenEstimator = estimateTokens): number {
+    let tokens = MESSAGE_OVERHEAD_TOKENS;
+    if (message.content !== null && message.content !== undefined) {
+        tokens += estimator(typeof message.content === 'string' ? message.content : JSON.stringify(message.content));
+    }
+    if (message.tool_calls?.length) {
+        tokens += estimator(JSON.stringify(message.tool_calls));
+    }
+    return tokens;
+}
+
+export function estimateMessagesTokens(messages: AgentMessage[], estimator: TokenEstimator = estimateTokens): number {
+    return messages.reduce((sum, message) => sum + estimateMessageTokens(message, estimator), 0);
+}
+
+/**
+ * Estimates the tokens that `files` add to every request. Markdown files are counted by
+ * their content, images at a flat rate. Unreadable files count as zero; the provider reports them.
+ */
+export function estimateFilesTokens(files: string[] | undefined, estimator: TokenEstimator = estimateTokens): number {
+    let tokens = 0;
+    for (const file of files || []) {
+        if (isImageFile(file)) {
+            tokens += IMAGE_TOKENS;
+        } else if (validateFileExtension(file, ['.md', '.markdown'])) {
+            try {
+                tokens += estimator(fs.readFileSync(file, 'utf-8'));
+            } catch {
+                // Ignored, see above
+            }
+        }
+    }
+    return tokens;
+}
+
+export function estimateToolsTokens(tools: AgentTool[] | undefined, estimator: TokenEstimator = estimateTokens): number {
+    return (tools || []).reduce((sum, tool) => {
+        let parameters = '';
+        try {
+            parameters = JSON.stringify(toProviderJSONSchema(tool.parameters).schema);
+        } catch {
+            // Schemas that cannot be converted are rejected by the provider anyway
+        }
+        return sum + MESSAGE_OVERHEAD_TOKENS + estimator(`${tool.name} ${tool.description} ${parameters}`);
+    }, 0);
+}
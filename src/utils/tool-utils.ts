@@ -0,0 +1,14 @@
+/**
+ * Parses streamed tool-call arguments. Malformed JSON is returned as the raw string
+ * so the agent can report it back to the model instead of failing the whole run.
+ */
+export function parseToolArguments(raw: string | undefined): any {
+    if (!raw) {
+        return {};
+    }
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
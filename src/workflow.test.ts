@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Agent } from './agent';
+import { Workflow } from './workflow';
+import { ScriptedProvider } from './providers/scripted';
+
+describe('Workflow', () => {
+    it('runs independent nodes in parallel and fans their outputs in', async () => {
+        const started: string[] = [];
+        const result = await new Workflow()
+            .node('a', { run: async () => { started.push('a'); await new Promise(r => setTimeout(r, 10)); return 1; } })
+            .node('b', { run: async () => { started.push('b'); return 2; } })
+            .node('sum', { dependsOn: ['a', 'b'], run: ({ a, b }) => a + b })
+            .run();
+
+        expect(started).toEqual(['a', 'b']);
+        expect(result.outputs).toEqual({ a: 1, b: 2, sum: 3 });
+        expect(result.order).toEqual(['b', 'a', 'sum']);
+    });
+
+    it('gives an agent node the output of its dependency', async () => {
+        const provider = new ScriptedProvider([{ text: 'Summary' }]);
+        const result = await new Workflow()
+            .node('fetch', { run: () => 'Article text' })
+            .node('summarize', { agent: new Agent({ name: 'summarizer', provider }), dependsOn: ['fetch'] })
+            .run();
+
+        expect(provider.calls[0].messages).toEqual([{ role: 'user', content: 'Article text' }]);
+        expect(result.outputs.summarize).toBe('Summary');
+    });
+
+    it('applies the skip and default error policies', async () => {
+        const fail = () => { throw new Error('down'); };
+        const result = await new Workflow()
+            .node('optional', { run: fail, onError: 'skip' })
+            .node('dependent', { dependsOn: ['optional'], run: () => 'never' })
+            .node('fallback', { run: fail, onError: { default: [] } })
+            .run();
+
+        expect(result.nodes.optional.status).toBe('skipped');
+        expect(result.nodes.dependent.status).toBe('skipped');
+        expect(result.outputs).toEqual({ fallback: [] });
+        expect(result.nodes.fallback.error?.message).toBe('down');
+    });
+
+    it('rejects a cycle', () => {
+        const workflow = new Workflow()
+            .node('a', { dependsOn: ['b'], run: () => 1 })
+            .node('b', { dependsOn: ['a'], run: () => 2 });
+
+        expect(() => workflow.validate()).toThrow('Workflow has a cycle: a -> b -> a');
+    });
+});
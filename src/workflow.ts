@@ -0,0 +1,292 @@
+import { Agent } from './agent';
+import { AgentError, AgentResponse, SpanContext } from './types';
+import { AgentAbortError, AgentPulseError } from './errors';
+import { normalizeError } from './utils/error-utils';
+import { Tracer } from './tracing/tracer';
+
+/**
+ * What happens when a node fails: `fail` stops the workflow and rejects `run()`,
+ * `skip` drops the node and everything that depends on it, `{ default }` continues
+ * with the given value as the node's output.
+ */
+export type NodeErrorPolicy = 'fail' | 'skip' | { default: any };
+
+interface WorkflowNodeBase {
+    dependsOn?: string[]; // Names of the nodes whose outputs this node needs
+    onError?: NodeErrorPolicy; // (default: 'fail')
+}
+
+/**
+ * A node that runs an agent. Without `input`, a root node gets the workflow input, a node
+ * with one dependency gets that dependency's output, and a fan-in node gets the upstream map as JSON.
+ */
+export interface AgentNode extends WorkflowNodeBase {
+    agent: Agent;
+    input?: string | any[] | ((upstream: Record<string, any>, input: any) => string | any[]);
+}
+
+/**
+ * A node that runs an async function, e.g. to fetch data or merge upstream results.
+ */
+export interface FunctionNode extends WorkflowNodeBase {
+    run: (upstream: Record<string, any>, context: { input: any; signal: AbortSignal }) => any;
+}
+
+export type WorkflowNode = AgentNode | FunctionNode;
+
+export interface WorkflowNodeResult {
+    status: 'completed' | 'skipped' | 'defaulted';
+    output?: any; // Agent content, function return value or the default value
+    response?: AgentResponse; // Agent nodes only
+    error?: AgentError; // Why a node was skipped or defaulted (absent when an upstream node was skipped)
+    started_at: number;
+    latency_ms: number;
+    tokens: number;
+    cost_usd?: number;
+}
+
+/**
+ * Result of a workflow run, summarized like a `ChainResult`.
+ */
+export interface WorkflowResult {
+    outputs: Record<string, any>; // Output of every node that completed or defaulted
+    nodes: Record<string, WorkflowNodeResult>;
+    order: string[]; // Nodes in the order they finished
+    totalLatency: number; // Wall-clock time; parallel branches overlap
+    totalTokens: number;
+    totalCost?: number; // USD, set when every agent node that ran reported a cost
+}
+
+export interface WorkflowOptions {
+    signal?: AbortSignal; // Cancels every running node
+    max_concurrency?: number; // Nodes running at the same time (default: unlimited)
+    tracer?: Tracer; // Records a workflow span with each agent node's run span as a child
+}
+
+/**
+ * A directed acyclic graph of agents and functions. Nodes run as soon as their
+ * dependencies have finished, so independent branches run in parallel.
+ *
+ * @example
+ * ```typescript
+ * const result = await new Workflow()
+ *   .node('research', { agent: researcher })
+ *   .node('competitors', { agent: analyst, onError: { default: [] } })
+ *   .node('report', {
+ *     agent: writer,
+ *     dependsOn: ['research', 'competitors'],
+ *     input: ({ research, competitors }) => `Research:\n${research}\n\nCompetitors:\n${JSON.stringify(competitors)}`
+ *   })
+ *   .run('Electric bikes in Europe');
+ *
+ * console.log(result.outputs.report);
+ * console.log(result.nodes.research.latency_ms, result.totalTokens);
+ * ```
+ */
+export class Workflow {
+    private nodes = new Map<string, WorkflowNode>();
+
+    node(name: string, node: WorkflowNode): this {
+        if (this.nodes.has(name)) {
+            throw invalidWorkflow(`Duplicate workflow node "${name}"`);
+        }
+        if (('agent' in node) === ('run' in node)) {
+            throw invalidWorkflow(`Workflow node "${name}" needs either an agent or a run function`);
+        }
+        this.nodes.set(name, node);
+        return this;
+    }
+
+    /**
+     * Checks that every dependency exists and that the graph has no cycle.
+     * Returns the node names in a topological order.
+     */
+    validate(): string[] {
+        for (const [name, node] of this.nodes) {
+            for (const dependency of node.dependsOn || []) {
+                if (!this.nodes.has(dependency)) {
+                    throw invalidWorkflow(`Workflow node "${name}" depends on unknown node "${dependency}"`);
+                }
+            }
+        }
+
+        const order: string[] = [];
+        const state = new Map<string, 'visiting' | 'done'>();
+        const visit = (name: string, path: string[]) => {
+            if (state.get(name) === 'done') return;
+            if (state.get(name) === 'visiting') {
+                const cycle = [...path.slice(path.indexOf(name)), name];
+                throw invalidWorkflow(`Workflow has a cycle: ${cycle.join(' -> ')}`, { cycle });
+            }
+            state.set(name, 'visiting');
+            for (const dependency of this.nodes.get(name)!.dependsOn || []) {
+                visit(dependency, [...path, name]);
+            }
+            state.set(name, 'done');
+            order.push(name);
+        };
+        for (const name of this.nodes.keys()) {
+            visit(name, []);
+        }
+        return order;
+    }
+
+    /**
+     * Runs the workflow. Rejects with the node's error when a node with the `fail`
+     * policy fails; the other running nodes are aborted.
+     */
+    async run(input?: any, options: WorkflowOptions = {}): Promise<WorkflowResult> {
+        const order = this.validate();
+        const startTime = Date.now();
+        const controller = new AbortController();
+        const onExternalAbort = () => controller.abort(options.signal?.reason);
+        if (options.signal?.aborted) {
+            controller.abort(options.signal.reason);
+        } else {
+            options.signal?.addEventListener('abort', onExternalAbort, { once: true });
+        }
+
+        const nodes: Record<string, WorkflowNodeResult> = {};
+        const outputs: Record<string, any> = {};
+        const finished: string[] = [];
+        const waiting = new Set(order);
+        const running = new Map<string, Promise<void>>();
+        const limit = options.max_concurrency ?? Infinity;
+        let failed = false;
+        let failure: unknown;
+        const span = options.tracer?.startSpan('workflow', 'chain', { attributes: { nodes: order.length } });
+
+        try {
+            while (waiting.size > 0 || running.size > 0) {
+                if (!failed && !controller.signal.aborted) {
+                    for (const name of order) {
+                        if (running.size >= limit) break;
+                        const dependencies = this.nodes.get(name)!.dependsOn || [];
+                        if (!waiting.has(name) || !dependencies.every(dependency => dependency in nodes)) continue;
+
+                        waiting.delete(name);
+                        const task = this.runNode(name, input, nodes, outputs, controller.signal, options.tracer, span?.context)
+                            .then(
+                                (result) => {
+                                    nodes[name] = result;
+                                    finished.push(name);
+                                    if (result.status !== 'skipped') {
+                                        outputs[name] = result.output;
+                                    }
+                                },
+                                (error) => {
+                                    if (!failed) {
+                                        failed = true;
+                                        failure = error;
+                                        controller.abort(error);
+                                    }
+                                }
+                            )
+                            .finally(() => running.delete(name));
+                        running.set(name, task);
+                    }
+                }
+                if (running.size === 0) break;
+                await Promise.race(running.values());
+            }
+        } finally {
+            options.signal?.removeEventListener('abort', onExternalAbort);
+        }
+
+        const results = Object.values(nodes);
+        const totalTokens = results.reduce((sum, result) => sum + result.tokens, 0);
+        const costs = results.filter(result => result.response).map(result => result.cost_usd);
+        const totalCost = costs.every(cost => cost !== undefined)
+            ? costs.reduce((sum: number, cost) => sum + cost!, 0)
+            : undefined;
+
+        const error = failed
+            ? failure
+            : controller.signal.aborted ? new AgentAbortError('Workflow was aborted', controller.signal.reason) : null;
+        if (error) {
+            span?.recordError(error);
+        }
+        span?.setAttributes({ completed_nodes: finished.length, total_tokens: totalTokens, cost_usd: totalCost });
+        span?.end();
+        if (error) {
+            throw error;
+        }
+
+        return {
+            outputs,
+            nodes,
+            order: finished,
+            totalLatency: Date.now() - startTime,
+            totalTokens,
+            totalCost
+        };
+    }
+
+    private async runNode(
+        name: string,
+        input: any,
+        nodes: Record<string, WorkflowNodeResult>,
+        outputs: Record<string, any>,
+        signal: AbortSignal,
+        tracer?: Tracer,
+        parentSpan?: SpanContext
+    ): Promise<WorkflowNodeResult> {
+        const node = this.nodes.get(name)!;
+        const dependencies = node.dependsOn || [];
+        const started_at = Date.now();
+        if (dependencies.some(dependency => nodes[dependency].status === 'skipped')) {
+            return { status: 'skipped', started_at, latency_ms: 0, tokens: 0 };
+        }
+        const upstream: Record<string, any> = {};
+        for (const dependency of dependencies) {
+            upstream[dependency] = outputs[dependency];
+        }
+
+        try {
+            if ('agent' in node) {
+                const response = await node.agent.run(agentInput(node, upstream, input), { signal, tracer, parent_span: parentSpan });
+                return {
+                    status: 'completed',
+                    output: response.content,
+                    response,
+                    started_at,
+                    latency_ms: Date.now() - started_at,
+                    tokens: response.usage?.total_tokens || 0,
+                    cost_usd: response.usage?.cost_usd
+                };
+            }
+            const output = await node.run(upstream, { input, signal });
+            return { status: 'completed', output, started_at, latency_ms: Date.now() - started_at, tokens: 0 };
+        } catch (error) {
+            const policy = node.onError || 'fail';
+            if (signal.aborted || policy === 'fail') {
+                throw error;
+            }
+            const result: WorkflowNodeResult = {
+                status: policy === 'skip' ? 'skipped' : 'defaulted',
+                error: normalizeError(error).toJSON(),
+                started_at,
+                latency_ms: Date.now() - started_at,
+                tokens: 0
+            };
+            if (policy !== 'skip') {
+                result.output = policy.default;
+            }
+            return result;
+        }
+    }
+}
+
+function agentInput(node: AgentNode, upstream: Record<string, any>, input: any): string | any[] {
+    if (typeof node.input === 'function') return node.input(upstream, input);
+    if (node.input !== undefined) return node.input;
+
+    const values = Object.values(upstream);
+    if (values.length === 0) return input;
+    const value = values.length === 1 ? values[0] : upstream;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function invalidWorkflow(message: string, details: Record<string, any> = {}): AgentPulseError {
+    return new AgentPulseError('execution_error', message, { kind: 'invalid_request', ...details });
+}